@@ -2,24 +2,61 @@ const API_BASE = '/api';
 
 // State
 let currentVideoId = null;
-let pollInterval = null;
+let eventSource = null;
+let projectState = null;
 let syncInterval = null;
 let audioContext = null;
+let lyricsFileAttached = false;
+let uploadedBackgroundType = null; // 'image' or 'video' once a background file is uploaded
 
 // Elements
 const sections = {
     input: document.getElementById('inputSection'),
     config: document.getElementById('configSection'),
-    dashboard: document.getElementById('dashboardSection')
+    dashboard: document.getElementById('dashboardSection'),
+    editor: document.getElementById('editorSection')
 };
 
 const inputs = {
     url: document.getElementById('urlInput'),
     checkBtn: document.getElementById('checkBtn'),
+    audioFile: document.getElementById('audioFileInput'),
+    uploadAudioBtn: document.getElementById('uploadAudioBtn'),
     languagesList: document.getElementById('languagesList'),
     startBtn: document.getElementById('startBtn'),
+    previewFrames: document.getElementById('previewFramesToggle'),
+    karaoke: document.getElementById('karaokeToggle'),
+    lowRes: document.getElementById('lowResToggle'),
+    visualizer: document.getElementById('visualizerToggle'),
+    transition: document.getElementById('transitionSelect'),
+    gaps: document.getElementById('gapsToggle'),
+    cards: document.getElementById('cardsToggle'),
+    credits: document.getElementById('creditsInput'),
+    background: document.getElementById('backgroundSelect'),
+    backgroundFile: document.getElementById('backgroundFileInput'),
+    offset: document.getElementById('offsetInput'),
+    autoAlign: document.getElementById('autoAlignToggle'),
+    independentMerge: document.getElementById('independentMergeToggle'),
+    lyricsFile: document.getElementById('lyricsFileInput'),
+    lyricsFileStatus: document.getElementById('lyricsFileStatus'),
+    lyricsPaste: document.getElementById('lyricsPasteInput'),
+    lyricsPasteBtn: document.getElementById('lyricsPasteBtn'),
     backBtn: document.getElementById('backBtn'),
-    exitBtn: document.getElementById('exitBtn')
+    exitBtn: document.getElementById('exitBtn'),
+    resumeBtn: document.getElementById('resumeBtn'),
+    cancelBtn: document.getElementById('cancelBtn'),
+    downloadBtn: document.getElementById('downloadBtn'),
+    subtitlesBtn: document.getElementById('subtitlesBtn'),
+    editLyricsBtn: document.getElementById('editLyricsBtn')
+};
+
+const editor = {
+    audio: document.getElementById('editorAudio'),
+    cueList: document.getElementById('cueList'),
+    closeBtn: document.getElementById('editorCloseBtn'),
+    saveBtn: document.getElementById('editorSaveBtn'),
+    previewFrameBtn: document.getElementById('previewFrameBtn'),
+    previewImage: document.getElementById('syncPreviewImage')
 };
 
 const display = {
@@ -30,6 +67,7 @@ const display = {
     placeholder: document.getElementById('previewPlaceholder'),
     time: document.getElementById('timeDisplay'),
     audio: document.getElementById('audioPlayer'),
+    video: document.getElementById('previewVideo'),
     error: document.getElementById('errorMsg')
 };
 
@@ -38,11 +76,31 @@ inputs.checkBtn.addEventListener('click', checkVideo);
 inputs.startBtn.addEventListener('click', startGeneration);
 inputs.backBtn.addEventListener('click', () => showSection('input'));
 inputs.exitBtn.addEventListener('click', exitProject);
+inputs.resumeBtn.addEventListener('click', resumeGeneration);
+inputs.cancelBtn.addEventListener('click', cancelGeneration);
+inputs.uploadAudioBtn.addEventListener('click', createUploadProject);
+inputs.lyricsFile.addEventListener('change', uploadLyricsFile);
+inputs.lyricsPasteBtn.addEventListener('click', usePastedLyrics);
+inputs.background.addEventListener('change', () => {
+    inputs.backgroundFile.classList.toggle('hidden', inputs.background.value !== 'file');
+});
+inputs.backgroundFile.addEventListener('change', uploadBackgroundFile);
+inputs.editLyricsBtn.addEventListener('click', openEditor);
+editor.closeBtn.addEventListener('click', closeEditor);
+editor.saveBtn.addEventListener('click', saveEditor);
+editor.cueList.addEventListener('click', handleCueAction);
+editor.audio.addEventListener('timeupdate', highlightActiveCue);
+editor.previewFrameBtn.addEventListener('click', previewFrameAtPlayhead);
+
+// Streamed renders are previewed as the finished MP4, PNG-sequence renders frame by frame
+function activeMedia() {
+    return display.video.src ? display.video : display.audio;
+}
 
 // Click on preview to play/pause
 document.querySelector('.preview-wrapper').addEventListener('click', () => {
-    if (display.audio.src) {
-        const audio = display.audio;
+    const audio = activeMedia();
+    if (audio.src) {
         if (audio.paused) {
             audio.play();
         } else {
@@ -55,7 +113,7 @@ document.querySelector('.preview-wrapper').addEventListener('click', () => {
 document.addEventListener('keydown', (e) => {
     if (sections.dashboard.classList.contains('hidden')) return;
     
-    const audio = display.audio;
+    const audio = activeMedia();
     if (!audio.src) return;
 
     // Space: Play/Pause
@@ -128,12 +186,18 @@ async function checkVideo() {
         if (!res.ok) throw new Error(data.error);
 
         currentVideoId = data.videoId;
+        resetBackgroundInputs();
+
+        const source = data.state && data.state.transcriptSource;
+        lyricsFileAttached = !!source && source.type === 'file';
+        inputs.lyricsFile.value = '';
+        inputs.lyricsFileStatus.textContent = lyricsFileAttached ? `Using ${source.filename}` : '';
         
         // Render languages
         inputs.languagesList.innerHTML = '';
         if (data.languages.length === 0) {
-            inputs.languagesList.innerHTML = '<p style="color: #ff6b6b;">No subtitles or captions available for this video. Please try a different video.</p>';
-            return;
+            // A lyric file can still be attached from the config step
+            inputs.languagesList.innerHTML = '<p style="color: #ff6b6b;">No subtitles or captions available for this video. Upload a lyric file below instead.</p>';
         }
 
         // Separate manual and auto-generated
@@ -256,10 +320,55 @@ async function checkVideo() {
     }
 }
 
+// Projects for tracks that aren't on YouTube: upload the audio, then attach lyrics in the config step
+async function createUploadProject() {
+    const file = inputs.audioFile.files[0];
+    if (!file) {
+        showError('Please choose an audio file');
+        return;
+    }
+
+    showError('');
+    inputs.uploadAudioBtn.disabled = true;
+    inputs.uploadAudioBtn.textContent = 'Uploading...';
+
+    try {
+        const res = await fetch(`${API_BASE}/projects`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ title: file.name.replace(/\.[^.]+$/, '') })
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+
+        const uploadRes = await fetch(`${API_BASE}/projects/${data.videoId}/audio?filename=${encodeURIComponent(file.name)}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/octet-stream' },
+            body: file
+        });
+        const uploadData = await uploadRes.json();
+        if (!uploadRes.ok) throw new Error(uploadData.error);
+
+        currentVideoId = data.videoId;
+        resetBackgroundInputs();
+        lyricsFileAttached = false;
+        inputs.lyricsFile.value = '';
+        inputs.lyricsPaste.value = '';
+        inputs.lyricsFileStatus.textContent = '';
+        inputs.languagesList.innerHTML = `<p>Using ${file.name}. Attach its lyrics below.</p>`;
+        showSection('config');
+    } catch (err) {
+        showError(err.message);
+    } finally {
+        inputs.uploadAudioBtn.disabled = false;
+        inputs.uploadAudioBtn.textContent = 'Use Audio File';
+    }
+}
+
 async function startGeneration() {
     const selected = Array.from(document.querySelectorAll('.language-item.selected'));
-    if (selected.length === 0) {
-        showError('Please select at least one language');
+    if (selected.length === 0 && !lyricsFileAttached) {
+        showError('Please select at least one language or upload a lyric file');
         return;
     }
 
@@ -267,8 +376,14 @@ async function startGeneration() {
     const languages = selected.map(el => el.dataset.code);
 
     try {
+        // Settings made through the API (language styles, fonts, palette...) aren't on the
+        // form, so the form fields are laid over the saved config rather than replacing it
+        const statusRes = await fetch(`${API_BASE}/status?videoId=${encodeURIComponent(currentVideoId)}`);
+        const status = await statusRes.json();
+        if (!statusRes.ok) throw new Error(status.error);
+
         // Configure
-        await fetch('/api/configure', {
+        const configureRes = await fetch('/api/configure', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ 
@@ -280,51 +395,224 @@ async function startGeneration() {
                     fps: 30,
                     fontSize: 72,
                     textColor: '#FFFFFF',
-                    backgroundColor: '#000000'
+                    backgroundColor: '#000000',
+                    ...status.config,
+                    renderMode: inputs.previewFrames.checked ? 'frames' : 'stream',
+                    karaoke: inputs.karaoke.checked,
+                    pixelScale: inputs.lowRes.checked ? 6 : 1,
+                    background: backgroundConfig(),
+                    visualizer: inputs.visualizer.checked ? { style: 'spectrum' } : undefined,
+                    transition: { type: inputs.transition.value },
+                    gaps: inputs.gaps.checked ? { titleCard: true } : undefined,
+                    introCard: inputs.cards.checked ? {} : undefined,
+                    outroCard: inputs.cards.checked
+                        ? { lines: inputs.credits.value.split('\n').map(line => line.trim()).filter(Boolean) }
+                        : undefined,
+                    offsetMs: parseInt(inputs.offset.value, 10) || 0,
+                    autoAlign: inputs.autoAlign.checked,
+                    mergePolicy: inputs.independentMerge.checked ? 'independent' : 'base'
                 }
             })
         });
+        const configured = await configureRes.json();
+        if (!configureRes.ok) throw new Error(configured.error);
 
         // Start
-        await fetch('/api/start', {
+        const startRes = await fetch('/api/start', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ videoId: currentVideoId })
         });
+        const started = await startRes.json();
+        if (!startRes.ok) throw new Error(started.error);
 
         showSection('dashboard');
-        startPolling();
+        startEvents();
     } catch (error) {
         showError(error.message);
     }
 }
 
-function startPolling() {
-    if (pollInterval) clearInterval(pollInterval);
-    pollInterval = setInterval(async () => {
-        try {
-            const res = await fetch(`${API_BASE}/status?videoId=${currentVideoId}`);
-            const state = await res.json();
-            updateDashboard(state);
-            
-            if (state.status === 'completed' || state.status === 'error') {
-                clearInterval(pollInterval);
-            }
-        } catch (err) {
-            console.error('Poll error:', err);
-        }
-    }, 1000);
+async function attachLyrics(filename, content) {
+    try {
+        const res = await fetch(`${API_BASE}/transcript`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ videoId: currentVideoId, filename, content })
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+
+        lyricsFileAttached = true;
+        inputs.lyricsFileStatus.textContent = `Using ${filename} (${data.items} lines, ${data.format.toUpperCase()})`;
+    } catch (error) {
+        lyricsFileAttached = false;
+        inputs.lyricsFile.value = '';
+        inputs.lyricsFileStatus.textContent = '';
+        showError(error.message);
+    }
+}
+
+// Uploaded projects have no thumbnail, so they default to a solid background
+function resetBackgroundInputs() {
+    uploadedBackgroundType = null;
+    inputs.background.value = currentVideoId && currentVideoId.startsWith('local-') ? 'solid' : 'thumbnail';
+    inputs.backgroundFile.value = '';
+    inputs.backgroundFile.classList.add('hidden');
+}
+
+function backgroundConfig() {
+    if (inputs.background.value === 'file' && uploadedBackgroundType) {
+        return { type: uploadedBackgroundType, dim: 0.5 };
+    }
+    if (inputs.background.value === 'solid') {
+        return { type: 'solid' };
+    }
+    return { type: 'thumbnail', pixelate: 24, dim: 0.5 };
+}
+
+async function uploadBackgroundFile() {
+    const file = inputs.backgroundFile.files[0];
+    if (!file) return;
+
+    try {
+        const res = await fetch(`${API_BASE}/projects/${currentVideoId}/background?filename=${encodeURIComponent(file.name)}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/octet-stream' },
+            body: file
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+
+        uploadedBackgroundType = data.state.config.background.type;
+    } catch (error) {
+        uploadedBackgroundType = null;
+        inputs.backgroundFile.value = '';
+        showError(error.message);
+    }
+}
+
+async function uploadLyricsFile() {
+    const file = inputs.lyricsFile.files[0];
+    if (!file) return;
+
+    await attachLyrics(file.name, await file.text());
+}
+
+// Pasted lyrics have no file name, so the server detects the format from the content
+async function usePastedLyrics() {
+    const content = inputs.lyricsPaste.value.trim();
+    if (!content) {
+        showError('Paste some timed lyrics first');
+        return;
+    }
+
+    inputs.lyricsFile.value = '';
+    await attachLyrics('pasted lyrics', content);
+}
+
+async function resumeGeneration() {
+    try {
+        const res = await fetch(`${API_BASE}/start`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ videoId: currentVideoId })
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+
+        updateDashboard(data.state);
+        startEvents();
+    } catch (error) {
+        showError(error.message);
+    }
+}
+
+async function cancelGeneration() {
+    try {
+        const res = await fetch(`${API_BASE}/cancel`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ videoId: currentVideoId })
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+
+        updateDashboard(data.state);
+    } catch (error) {
+        showError(error.message);
+    }
+}
+
+// Statuses after which no further progress events arrive
+const FINISHED_STATUSES = ['completed', 'error', 'interrupted', 'cancelled'];
+
+function startEvents() {
+    stopEvents();
+    eventSource = new EventSource(`${API_BASE}/events?videoId=${currentVideoId}`);
+
+    const on = (type, apply) => {
+        eventSource.addEventListener(type, (e) => {
+            // EventSource also fires a data-less 'error' on connection drops; it reconnects by itself
+            if (!e.data) return;
+            const data = JSON.parse(e.data);
+            apply(data);
+            if (projectState) updateDashboard(projectState);
+        });
+    };
+
+    // Every (re)connection starts with a full snapshot
+    on('state', (data) => {
+        projectState = data.state;
+    });
+    on('phase', (data) => {
+        Object.assign(projectState, {
+            status: data.status,
+            progress: data.progress,
+            queuePosition: data.queuePosition
+        });
+        if (FINISHED_STATUSES.includes(data.status)) stopEvents();
+    });
+    on('progress', (data) => {
+        Object.assign(projectState, {
+            progress: data.progress,
+            currentFrame: data.currentFrame,
+            totalFrames: data.totalFrames
+        });
+    });
+    on('frame', (data) => {
+        Object.assign(projectState, {
+            currentFrame: data.frameNumber,
+            totalFrames: data.totalFrames
+        });
+    });
+    on('error', (data) => {
+        projectState.error = data.error;
+    });
+}
+
+function stopEvents() {
+    if (eventSource) {
+        eventSource.close();
+        eventSource = null;
+    }
 }
 
 function updateDashboard(state) {
-    display.status.textContent = state.status.toUpperCase();
+    display.status.textContent = state.status === 'queued' && state.queuePosition
+        ? `QUEUED (#${state.queuePosition})`
+        : state.status.toUpperCase();
     display.progress.style.width = `${state.progress}%`;
     display.progressText.textContent = `${state.progress}%`;
 
-    if (state.status === 'generating' || state.status === 'completed') {
+    const framePreview = state.config && state.config.renderMode === 'frames';
+
+    if (!framePreview) {
+        updateVideoPreview(state);
+    } else if (state.status === 'generating' || state.status === 'encoding' || state.status === 'completed') {
         // Setup audio if not already
         if (!display.audio.src) {
-            display.audio.src = `/${state.videoId}/audio.webm?t=${Date.now()}`;
+            display.audio.src = `/${state.videoId}/${state.audioFile || 'audio.webm'}?t=${Date.now()}`;
             display.audio.load();
             startSync();
         }
@@ -344,12 +632,53 @@ function updateDashboard(state) {
         }
     }
     
+    // Offer the encoded MP4 once it's ready
+    if (state.status === 'completed') {
+        inputs.downloadBtn.href = `${API_BASE}/download?videoId=${state.videoId}`;
+        inputs.downloadBtn.classList.remove('hidden');
+        // Every selected language stacked into one subtitle file
+        inputs.subtitlesBtn.href = `${API_BASE}/transcript?videoId=${state.videoId}&format=srt`;
+        inputs.subtitlesBtn.classList.remove('hidden');
+    } else {
+        inputs.downloadBtn.classList.add('hidden');
+        inputs.subtitlesBtn.classList.add('hidden');
+    }
+    
+    // Runs cut short by a server restart (or failed runs) can be restarted;
+    // frames that were already written are skipped. Edited projects go back to idle.
+    if (['idle', 'interrupted', 'cancelled', 'error'].includes(state.status)) {
+        inputs.resumeBtn.classList.remove('hidden');
+    } else {
+        inputs.resumeBtn.classList.add('hidden');
+    }
+
+    if (['queued', 'downloading', 'aligning', 'generating', 'encoding'].includes(state.status)) {
+        inputs.cancelBtn.classList.remove('hidden');
+        inputs.editLyricsBtn.classList.add('hidden');
+    } else {
+        inputs.cancelBtn.classList.add('hidden');
+        inputs.editLyricsBtn.classList.remove('hidden');
+    }
+    
     // Show error if present
     if (state.error) {
         display.status.textContent = `ERROR: ${state.error}`;
     }
 }
 
+function updateVideoPreview(state) {
+    if (state.status === 'generating') {
+        display.placeholder.textContent = `Rendering frame ${state.currentFrame} / ${state.totalFrames}...`;
+    }
+
+    if (state.status === 'completed' && !display.video.src) {
+        display.video.src = `/${state.videoId}/lyrics-video.mp4?t=${Date.now()}`;
+        display.video.style.display = 'block';
+        display.placeholder.style.display = 'none';
+        display.time.style.display = 'none';
+    }
+}
+
 function startSync() {
     if (syncInterval) cancelAnimationFrame(syncInterval);
     
@@ -416,18 +745,31 @@ function syncFrame() {
 function restoreState(state) {
     currentVideoId = state.videoId;
     showSection('dashboard');
-    startPolling();
+    startEvents();
     updateDashboard(state);
 }
 
 function exitProject() {
-    if (pollInterval) clearInterval(pollInterval);
+    stopEvents();
+    projectState = null;
     if (syncInterval) cancelAnimationFrame(syncInterval);
     display.audio.pause();
     display.audio.src = '';
     display.preview.src = '';
+    display.video.pause();
+    display.video.removeAttribute('src');
+    display.video.style.display = 'none';
+    display.placeholder.textContent = 'Waiting for frames...';
+    display.placeholder.style.display = '';
+    display.time.style.display = '';
+    inputs.downloadBtn.classList.add('hidden');
+    inputs.subtitlesBtn.classList.add('hidden');
+    inputs.editLyricsBtn.classList.add('hidden');
+    inputs.resumeBtn.classList.add('hidden');
+    inputs.cancelBtn.classList.add('hidden');
     currentVideoId = null;
     inputs.url.value = '';
+    inputs.audioFile.value = '';
     
     // Exit fullscreen if active
     const container = document.querySelector('.preview-container');
@@ -438,6 +780,228 @@ function exitProject() {
     showSection('input');
 }
 
+// Lyric timing editor
+
+const NUDGE_MS = 50;
+const MIN_CUE_MS = 50;
+let editorTranscript = null;
+
+function formatCueTime(ms) {
+    const minutes = Math.floor(ms / 60000);
+    const seconds = ((ms % 60000) / 1000).toFixed(2).padStart(5, '0');
+    return `${minutes}:${seconds}`;
+}
+
+async function openEditor() {
+    try {
+        const res = await fetch(`${API_BASE}/projects/${currentVideoId}/transcript`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+
+        editorTranscript = data;
+        const audioFile = (projectState && projectState.audioFile) || 'audio.webm';
+        editor.audio.src = `/${currentVideoId}/${audioFile}`;
+        activeMedia().pause();
+        renderCues();
+        showSection('editor');
+    } catch (error) {
+        showError(error.message);
+    }
+}
+
+// Renders the frame the video would show at the playhead, with the project's saved offset
+function previewFrameAtPlayhead() {
+    const time = editor.audio.currentTime.toFixed(3);
+    editor.previewImage.src = `${API_BASE}/preview/frame?videoId=${currentVideoId}&time=${time}&t=${Date.now()}`;
+    editor.previewImage.classList.remove('hidden');
+}
+
+function closeEditor() {
+    editor.audio.pause();
+    editor.previewImage.classList.add('hidden');
+    editorTranscript = null;
+    showSection('dashboard');
+}
+
+function renderCues() {
+    editor.cueList.innerHTML = '';
+
+    editorTranscript.items.forEach((item, index) => {
+        const row = document.createElement('div');
+        row.className = 'cue-row';
+        row.dataset.index = index;
+        row.innerHTML = `
+            <button data-action="seek">▶</button>
+            <button data-action="start-">−</button>
+            <span class="cue-time">${formatCueTime(item.offset)}</span>
+            <button data-action="start+">+</button>
+            <span>→</span>
+            <button data-action="end-">−</button>
+            <span class="cue-time">${formatCueTime(item.offset + item.duration)}</span>
+            <button data-action="end+">+</button>
+            <div class="cue-texts"></div>
+            <button data-action="split">Split</button>
+            <button data-action="merge">Merge ↓</button>
+        `;
+
+        const texts = row.querySelector('.cue-texts');
+        item.text.forEach((text, lang) => {
+            const input = document.createElement('input');
+            input.type = 'text';
+            input.value = text;
+            input.placeholder = editorTranscript.languages[lang];
+            input.addEventListener('change', () => updateCueText(item, lang, input.value));
+            texts.appendChild(input);
+        });
+
+        editor.cueList.appendChild(row);
+    });
+
+    highlightActiveCue();
+}
+
+function updateCueText(item, lang, value) {
+    item.text[lang] = value.trim();
+    // Word timing no longer matches hand-edited text
+    if (item.words) {
+        item.words[lang] = [];
+        if (item.words.every(words => words.length === 0)) delete item.words;
+    }
+}
+
+function handleCueAction(e) {
+    const button = e.target.closest('button[data-action]');
+    if (!button) return;
+
+    const index = parseInt(button.closest('.cue-row').dataset.index, 10);
+    const items = editorTranscript.items;
+    const item = items[index];
+    const end = item.offset + item.duration;
+
+    switch (button.dataset.action) {
+        case 'seek':
+            editor.audio.currentTime = item.offset / 1000;
+            editor.audio.play();
+            return;
+        case 'start-':
+            item.offset = Math.max(0, item.offset - NUDGE_MS);
+            item.duration = end - item.offset;
+            break;
+        case 'start+':
+            item.offset = Math.min(end - MIN_CUE_MS, item.offset + NUDGE_MS);
+            item.duration = end - item.offset;
+            break;
+        case 'end-':
+            item.duration = Math.max(MIN_CUE_MS, item.duration - NUDGE_MS);
+            break;
+        case 'end+':
+            item.duration += NUDGE_MS;
+            break;
+        case 'split':
+            splitCue(index);
+            break;
+        case 'merge':
+            if (index + 1 < items.length) mergeCues(index);
+            break;
+    }
+
+    renderCues();
+}
+
+// Splits at the playhead when it's inside the cue, otherwise in the middle
+function splitCue(index) {
+    const item = editorTranscript.items[index];
+    const end = item.offset + item.duration;
+    const playhead = Math.round(editor.audio.currentTime * 1000);
+    const splitAt = playhead > item.offset + MIN_CUE_MS && playhead < end - MIN_CUE_MS
+        ? playhead
+        : Math.round(item.offset + item.duration / 2);
+    const fraction = (splitAt - item.offset) / item.duration;
+
+    const first = { text: [], offset: item.offset, duration: splitAt - item.offset };
+    const second = { text: [], offset: splitAt, duration: end - splitAt };
+    if (item.words) {
+        first.words = [];
+        second.words = [];
+    }
+
+    item.text.forEach((text, lang) => {
+        const timedWords = item.words && item.words[lang];
+        if (timedWords && timedWords.length > 0) {
+            // Word-timed lines split exactly where the words are sung
+            const before = timedWords.filter(word => word.offset < splitAt);
+            const after = timedWords.filter(word => word.offset >= splitAt);
+            first.text.push(before.map(word => word.text).join(' '));
+            second.text.push(after.map(word => word.text).join(' '));
+            first.words.push(before);
+            second.words.push(after);
+        } else {
+            const words = text.split(' ').filter(Boolean);
+            const count = words.length > 1 ? Math.min(words.length - 1, Math.max(1, Math.round(words.length * fraction))) : words.length;
+            first.text.push(words.slice(0, count).join(' '));
+            second.text.push(words.slice(count).join(' '));
+            if (item.words) {
+                first.words.push([]);
+                second.words.push([]);
+            }
+        }
+    });
+
+    editorTranscript.items.splice(index, 1, first, second);
+}
+
+function mergeCues(index) {
+    const items = editorTranscript.items;
+    const item = items[index];
+    const next = items[index + 1];
+
+    item.text = item.text.map((text, lang) => [text, next.text[lang]].filter(Boolean).join(' '));
+    if (item.words || next.words) {
+        item.words = item.text.map((_, lang) => [
+            ...((item.words && item.words[lang]) || []),
+            ...((next.words && next.words[lang]) || [])
+        ]);
+    }
+    item.duration = Math.max(item.offset + item.duration, next.offset + next.duration) - item.offset;
+
+    items.splice(index + 1, 1);
+}
+
+function highlightActiveCue() {
+    if (!editorTranscript) return;
+    const timeMs = editor.audio.currentTime * 1000;
+
+    editor.cueList.querySelectorAll('.cue-row').forEach(row => {
+        const item = editorTranscript.items[parseInt(row.dataset.index, 10)];
+        const active = timeMs >= item.offset && timeMs < item.offset + item.duration;
+        row.classList.toggle('active', active);
+    });
+}
+
+async function saveEditor() {
+    try {
+        const res = await fetch(`${API_BASE}/projects/${currentVideoId}/transcript`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(editorTranscript)
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+
+        // The old MP4 was deleted; drop it from the preview before re-rendering
+        display.video.pause();
+        display.video.removeAttribute('src');
+        display.video.style.display = 'none';
+
+        closeEditor();
+        projectState = data.state;
+        updateDashboard(data.state);
+        await resumeGeneration();
+    } catch (error) {
+        showError(error.message);
+    }
+}
+
 function toggleFullscreen() {
     const container = document.querySelector('.preview-container');
     
@@ -0,0 +1,153 @@
+import { VisualizerStyle } from './types.js';
+import { decodePcm } from './audio-decode.js';
+
+const SAMPLE_RATE = 22050;
+const FFT_SIZE = 2048; // ~93 ms window, enough resolution for the low bars
+const MIN_FREQUENCY = 50;
+const MAX_FREQUENCY = 10000;
+const DYNAMIC_RANGE_DB = 45; // a band this far below its loudest moment reads as empty
+const FALL_SECONDS = 0.3; // how long a full bar takes to drop to nothing
+
+export interface AnalysisOptions {
+  fps: number;
+  columns: number; // spectrum bands or waveform columns
+  style: VisualizerStyle;
+}
+
+/**
+ * In-place radix-2 FFT; re and im must have a power-of-two length
+ */
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * Turns a song into per-frame visualizer levels (0-1 per column), offline,
+ * on the same frame clock the renderer uses
+ */
+export class AudioAnalyzer {
+  async analyze(audioPath: string, options: AnalysisOptions, signal?: AbortSignal): Promise<Float32Array[]> {
+    const samples = await decodePcm(audioPath, { sampleRate: SAMPLE_RATE }, signal);
+    const frameCount = Math.ceil((samples.length / SAMPLE_RATE) * options.fps);
+
+    return options.style === 'waveform'
+      ? this.waveform(samples, frameCount, options)
+      : this.spectrum(samples, frameCount, options, signal);
+  }
+
+  /**
+   * Log-spaced band magnitudes from an FFT window centered on each frame,
+   * normalized per band and given a falling-bar decay
+   */
+  private spectrum(samples: Int16Array, frameCount: number, options: AnalysisOptions, signal?: AbortSignal): Float32Array[] {
+    const { fps, columns } = options;
+    const window = new Float64Array(FFT_SIZE);
+    for (let i = 0; i < FFT_SIZE; i++) {
+      window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FFT_SIZE - 1)); // Hann
+    }
+
+    // FFT bins covered by each band, spaced evenly in octaves
+    const binHz = SAMPLE_RATE / FFT_SIZE;
+    const ratio = MAX_FREQUENCY / MIN_FREQUENCY;
+    const bands = Array.from({ length: columns }, (_, band) => {
+      const low = MIN_FREQUENCY * Math.pow(ratio, band / columns);
+      const high = MIN_FREQUENCY * Math.pow(ratio, (band + 1) / columns);
+      const from = Math.max(1, Math.floor(low / binHz));
+      return { from, to: Math.max(from + 1, Math.ceil(high / binHz)) };
+    });
+
+    const decibels: Float32Array[] = [];
+    const peaks = new Float64Array(columns).fill(-Infinity);
+    const re = new Float64Array(FFT_SIZE);
+    const im = new Float64Array(FFT_SIZE);
+
+    for (let frame = 0; frame < frameCount; frame++) {
+      if (frame % 500 === 0) signal?.throwIfAborted();
+      const center = Math.floor((frame / fps) * SAMPLE_RATE);
+      for (let i = 0; i < FFT_SIZE; i++) {
+        const index = center - FFT_SIZE / 2 + i;
+        re[i] = index >= 0 && index < samples.length ? (samples[index] / 32768) * window[i] : 0;
+        im[i] = 0;
+      }
+      fft(re, im);
+
+      const levels = new Float32Array(columns);
+      bands.forEach(({ from, to }, band) => {
+        let power = 0;
+        for (let bin = from; bin < to; bin++) power += re[bin] * re[bin] + im[bin] * im[bin];
+        levels[band] = 10 * Math.log10(power / (to - from) + 1e-12);
+        peaks[band] = Math.max(peaks[band], levels[band]);
+      });
+      decibels.push(levels);
+    }
+
+    // Highs carry far less energy than lows, so each band is scaled to its own loudest moment
+    const fall = 1 / (FALL_SECONDS * fps);
+    const previous = new Float32Array(columns);
+    return decibels.map(levels => {
+      const normalized = new Float32Array(columns);
+      for (let band = 0; band < columns; band++) {
+        const level = Math.min(1, Math.max(0, 1 - (peaks[band] - levels[band]) / DYNAMIC_RANGE_DB));
+        normalized[band] = Math.max(level, previous[band] - fall);
+        previous[band] = normalized[band];
+      }
+      return normalized;
+    });
+  }
+
+  /**
+   * Peak amplitude of each column's slice of the frame, relative to the song's peak
+   */
+  private waveform(samples: Int16Array, frameCount: number, options: AnalysisOptions): Float32Array[] {
+    const { fps, columns } = options;
+    let songPeak = 1;
+    for (const sample of samples) songPeak = Math.max(songPeak, Math.abs(sample));
+
+    const frames: Float32Array[] = [];
+    const frameSamples = SAMPLE_RATE / fps;
+    for (let frame = 0; frame < frameCount; frame++) {
+      const levels = new Float32Array(columns);
+      for (let column = 0; column < columns; column++) {
+        const from = Math.floor(frame * frameSamples + (column * frameSamples) / columns);
+        const to = Math.min(samples.length, Math.floor(frame * frameSamples + ((column + 1) * frameSamples) / columns));
+        let peak = 0;
+        for (let i = from; i < to; i++) peak = Math.max(peak, Math.abs(samples[i]));
+        levels[column] = peak / songPeak;
+      }
+      frames.push(levels);
+    }
+    return frames;
+  }
+}
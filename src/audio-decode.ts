@@ -0,0 +1,46 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { Readable } from 'stream';
+
+export interface DecodeOptions {
+  sampleRate: number;
+  filters?: string[]; // FFmpeg audio filters applied before resampling
+}
+
+/**
+ * Decodes any audio FFmpeg can read to mono 16-bit PCM
+ */
+export function decodePcm(audioPath: string, options: DecodeOptions, signal?: AbortSignal): Promise<Int16Array> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const command = ffmpeg(audioPath)
+      .noVideo()
+      .audioChannels(1)
+      .audioFrequency(options.sampleRate)
+      .format('s16le');
+    if (options.filters && options.filters.length > 0) {
+      command.audioFilters(options.filters);
+    }
+
+    const kill = () => command.kill('SIGKILL');
+    signal?.addEventListener('abort', kill, { once: true });
+    const cleanup = () => signal?.removeEventListener('abort', kill);
+
+    command.on('error', (err) => {
+      cleanup();
+      reject(signal?.aborted ? signal.reason : err);
+    });
+
+    const output = command.pipe() as Readable;
+    output.on('data', (chunk: Buffer) => chunks.push(chunk));
+    output.on('end', () => {
+      cleanup();
+      const pcm = Buffer.concat(chunks);
+      // Copy into an aligned buffer; Buffer.concat may return an odd byte offset
+      const samples = new Int16Array(Math.floor(pcm.length / 2));
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = pcm.readInt16LE(i * 2);
+      }
+      resolve(samples);
+    });
+  });
+}
@@ -0,0 +1,167 @@
+import { createCanvas, loadImage, Canvas, CanvasRenderingContext2D, Image } from 'canvas';
+import { existsSync } from 'fs';
+import { BackgroundConfig, VideoConfig } from './types.js';
+
+export const BACKGROUND_IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg'];
+export const BACKGROUND_VIDEO_EXTENSIONS = ['.mp4', '.webm', '.mov', '.mkv'];
+
+export interface BackgroundAssets {
+  image?: string; // used by 'image'
+  video?: string; // used by 'video'
+  thumbnail?: string; // used by 'thumbnail'
+}
+
+const DEFAULT_DIM = 0.4;
+
+/**
+ * Paints what sits behind the lyrics. Stills are scaled to cover the frame and
+ * blurred/pixelated once up front; a video background leaves the frame
+ * transparent here and is composited underneath by FFmpeg.
+ */
+export class BackgroundRenderer {
+  private config: VideoConfig;
+  private still: Canvas | null = null;
+  private video: string | null = null;
+  private source: string | null = null; // file the still or video was loaded from
+
+  constructor(config: VideoConfig) {
+    this.config = config;
+  }
+
+  private get settings(): BackgroundConfig {
+    return this.config.background || { type: 'solid' };
+  }
+
+  /**
+   * Looping video to composite under the frames, if the background is one
+   */
+  get videoPath(): string | null {
+    return this.video;
+  }
+
+  /**
+   * File the background was loaded from, or null when the background color is used
+   */
+  get sourcePath(): string | null {
+    return this.source;
+  }
+
+  /**
+   * Loads the file the background type needs; without it the background color is used
+   */
+  async prepare(assets: BackgroundAssets = {}): Promise<void> {
+    const { type } = this.settings;
+    this.still = null;
+    this.video = null;
+    this.source = null;
+
+    if (type === 'solid' || type === 'gradient') return;
+
+    if (type === 'video') {
+      if (assets.video && existsSync(assets.video)) {
+        this.video = assets.video;
+        this.source = assets.video;
+        return;
+      }
+    } else {
+      const path = type === 'image' ? assets.image : assets.thumbnail;
+      if (path && existsSync(path)) {
+        try {
+          this.still = this.renderStill(await loadImage(path));
+          this.source = path;
+          return;
+        } catch (error) {
+          console.warn(`⚠️  Could not load background ${path}:`, error);
+        }
+      }
+    }
+
+    console.warn(`⚠️  No ${type} background available; using the background color`);
+  }
+
+  /**
+   * Paints the background over the whole frame
+   */
+  draw(ctx: CanvasRenderingContext2D): void {
+    const { width, height } = this.config;
+
+    if (this.video) {
+      ctx.clearRect(0, 0, width, height);
+      return;
+    }
+    if (this.still) {
+      ctx.drawImage(this.still, 0, 0);
+      return;
+    }
+
+    const { type, colors, angle = 180 } = this.settings;
+    if (type === 'gradient' && colors && colors.length >= 2) {
+      // The gradient line runs through the center and is just long enough to reach the corners, as in CSS
+      const radians = (angle * Math.PI) / 180;
+      const dx = Math.sin(radians);
+      const dy = -Math.cos(radians);
+      const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+      const gradient = ctx.createLinearGradient(
+        width / 2 - dx * half,
+        height / 2 - dy * half,
+        width / 2 + dx * half,
+        height / 2 + dy * half
+      );
+      colors.forEach((color, index) => gradient.addColorStop(index / (colors.length - 1), color));
+      ctx.fillStyle = gradient;
+    } else {
+      ctx.fillStyle = this.config.backgroundColor;
+    }
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  /**
+   * Scales the image to cover the frame, then blurs, pixelates and dims it
+   */
+  private renderStill(image: Image): Canvas {
+    const { width, height } = this.config;
+    const { blur = 0, pixelate = 0, dim = DEFAULT_DIM } = this.settings;
+
+    let canvas = createCanvas(width, height);
+    const scale = Math.max(width / image.width, height / image.height);
+    const drawWidth = image.width * scale;
+    const drawHeight = image.height * scale;
+    canvas.getContext('2d').drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+
+    if (blur > 0) {
+      // node-canvas has no ctx.filter; shrinking and re-enlarging with smoothing blurs by about the shrink factor
+      const factor = Math.max(1, blur / 2);
+      canvas = this.enlarge(this.shrink(canvas, factor), factor, true);
+    }
+    if (pixelate > 1) {
+      // Smoothing while shrinking averages each block; enlarging without it keeps the blocks square
+      canvas = this.enlarge(this.shrink(canvas, pixelate), pixelate, false);
+    }
+
+    const ctx = canvas.getContext('2d');
+    if (dim > 0) {
+      ctx.fillStyle = `rgba(0, 0, 0, ${Math.min(1, dim)})`;
+      ctx.fillRect(0, 0, width, height);
+    }
+    return canvas;
+  }
+
+  private shrink(source: Canvas, factor: number): Canvas {
+    const target = createCanvas(Math.max(1, Math.ceil(source.width / factor)), Math.max(1, Math.ceil(source.height / factor)));
+    const ctx = target.getContext('2d');
+    ctx.imageSmoothingEnabled = true;
+    ctx.quality = 'good';
+    ctx.drawImage(source, 0, 0, source.width / factor, source.height / factor);
+    return target;
+  }
+
+  private enlarge(source: Canvas, factor: number, smooth: boolean): Canvas {
+    const target = createCanvas(this.config.width, this.config.height);
+    const ctx = target.getContext('2d');
+    ctx.imageSmoothingEnabled = smooth;
+    ctx.quality = smooth ? 'good' : 'nearest';
+    // The shrunk size was rounded up, so this overshoots the frame by under a block, which is cropped
+    ctx.drawImage(source, 0, 0, source.width * factor, source.height * factor);
+    return target;
+  }
+}
@@ -0,0 +1,60 @@
+import { TranscriptItem } from './types.js';
+
+// YouTube inserts ~10ms cues that just hold the finished lines on screen
+const HOLD_CUE_MAX_DURATION = 50;
+
+/**
+ * Collapses YouTube auto-caption "rolling" cues into distinct lines.
+ *
+ * Auto captions show two lines at a time: every cue repeats the previous line
+ * above the one being spoken, and short hold cues repeat both. This strips the
+ * repeated prefix, drops the hold cues and trims each line so it ends when the
+ * next one starts. Expects single-language items straight from the VTT parser.
+ */
+export function collapseRollingCaptions(items: TranscriptItem[]): { items: TranscriptItem[]; mergedCount: number } {
+  const lines: TranscriptItem[] = [];
+
+  for (const cue of items) {
+    if (cue.duration <= HOLD_CUE_MAX_DURATION) continue;
+
+    const text = cue.text[0];
+    const words = cue.words ? cue.words[0] : undefined;
+    const cueEnd = cue.offset + cue.duration;
+    const previous = lines[lines.length - 1];
+
+    // Same line again: it just stays on screen longer
+    if (previous && text === previous.text[0]) {
+      previous.duration = Math.max(previous.duration, cueEnd - previous.offset);
+      continue;
+    }
+
+    // Previous line repeated above the new one: keep only the new part
+    if (previous && text.startsWith(previous.text[0] + ' ')) {
+      const repeatedWordCount = previous.text[0].split(' ').length;
+      lines.push({
+        text: [text.slice(previous.text[0].length + 1)],
+        offset: cue.offset,
+        duration: cue.duration,
+        ...(words ? { words: [words.slice(repeatedWordCount)] } : {})
+      });
+      continue;
+    }
+
+    lines.push({
+      text: [text],
+      offset: cue.offset,
+      duration: cue.duration,
+      ...(words ? { words: [words] } : {})
+    });
+  }
+
+  // Rolling cues overlap; end each line where the next one begins
+  for (let i = 0; i < lines.length - 1; i++) {
+    const nextStart = lines[i + 1].offset;
+    if (lines[i].offset + lines[i].duration > nextStart) {
+      lines[i].duration = Math.max(0, nextStart - lines[i].offset);
+    }
+  }
+
+  return { items: lines, mergedCount: items.length - lines.length };
+}
@@ -0,0 +1,475 @@
+import { Command, InvalidArgumentError, Option } from 'commander';
+import { existsSync } from 'fs';
+import { mkdir } from 'fs/promises';
+import { dirname, extname, join, resolve } from 'path';
+import { YouTubeExtractor } from './youtube-extractor.js';
+import { VideoGenerator } from './video-generator.js';
+import { LyricAligner } from './lyric-aligner.js';
+import { fontRegistry } from './font-registry.js';
+import { BACKGROUND_VIDEO_EXTENSIONS, BackgroundAssets } from './background.js';
+import { DEFAULT_VIDEO_CONFIG, resolveVideoConfig } from './config.js';
+import {
+  BackgroundConfig,
+  BackgroundType,
+  FontWeight,
+  GapConfig,
+  GapIndicator,
+  MergePolicy,
+  RenderMode,
+  ScriptName,
+  TransitionType,
+  VisualizerConfig,
+  VisualizerStyle
+} from './types.js';
+
+interface RenderOptions {
+  output: string;
+  workDir?: string;
+  languages?: string[];
+  width: number;
+  height: number;
+  fps: number;
+  fontSize: number;
+  fontFamily: string;
+  fontWeight: FontWeight;
+  fallbackFont?: Partial<Record<ScriptName, string[]>>;
+  textColor: string;
+  backgroundColor: string;
+  background?: BackgroundType;
+  backgroundFile?: string;
+  gradient?: string[];
+  backgroundBlur?: number;
+  backgroundPixelate?: number;
+  backgroundDim?: number;
+  visualizer?: VisualizerStyle;
+  visualizerPosition?: VisualizerConfig['position'];
+  visualizerBars?: number;
+  visualizerColor?: string;
+  transition?: TransitionType;
+  transitionDuration?: number;
+  gapIndicator?: GapIndicator;
+  minGap?: number;
+  instrumentalLabel?: string | false;
+  titleCard?: boolean;
+  introCard?: boolean;
+  outroCard?: boolean;
+  credit?: string[];
+  cardDuration?: number;
+  renderMode: RenderMode;
+  karaoke?: boolean;
+  highlightColor?: string;
+  offset?: number;
+  languageOffset?: Record<string, number>;
+  autoAlign?: boolean;
+  mergePolicy: MergePolicy;
+  maxLines: number;
+  autoFit: boolean;
+  pixelScale: number;
+  palette?: string[];
+}
+
+function parseInteger(value: string): number {
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed <= 0) {
+    throw new InvalidArgumentError('Must be a positive integer.');
+  }
+  return parsed;
+}
+
+function parseLanguageList(value: string): string[] {
+  const codes = value.split(',').map(code => code.trim()).filter(Boolean);
+  if (codes.length === 0) {
+    throw new InvalidArgumentError('Provide at least one language code.');
+  }
+  return codes;
+}
+
+function parseColorList(value: string): string[] {
+  const colors = value.split(',').map(color => color.trim()).filter(Boolean);
+  if (colors.length === 0) {
+    throw new InvalidArgumentError('Provide at least one color.');
+  }
+  return colors;
+}
+
+function parseOffset(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new InvalidArgumentError('Must be a whole number of milliseconds.');
+  }
+  return parsed;
+}
+
+// Accepts `en=-250,ja=400`
+function parseLanguageOffsets(value: string): Record<string, number> {
+  const offsets: Record<string, number> = {};
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [code, ms] = entry.split('=');
+    if (!code || ms === undefined) {
+      throw new InvalidArgumentError('Use code=milliseconds pairs, e.g. en=-250,ja=400.');
+    }
+    offsets[code.trim()] = parseOffset(ms.trim());
+  }
+  return offsets;
+}
+
+function parseFraction(value: string): number {
+  const parsed = parseFloat(value);
+  if (isNaN(parsed) || parsed < 0 || parsed > 1) {
+    throw new InvalidArgumentError('Must be a number from 0 to 1.');
+  }
+  return parsed;
+}
+
+const SCRIPT_NAMES: ScriptName[] = [
+  'latin', 'cyrillic', 'greek', 'cjk', 'hangul', 'mongolian', 'arabic', 'hebrew', 'thai', 'devanagari', 'common', 'other'
+];
+
+// Repeatable: --fallback-font cjk="Zpix" --fallback-font hangul="Galmuri11"
+function parseFallbackFont(
+  value: string,
+  previous: Partial<Record<ScriptName, string[]>> = {}
+): Partial<Record<ScriptName, string[]>> {
+  const separator = value.indexOf('=');
+  const script = value.slice(0, separator).trim() as ScriptName;
+  const family = value.slice(separator + 1).trim();
+  if (separator < 0 || !family || !SCRIPT_NAMES.includes(script)) {
+    throw new InvalidArgumentError(`Use script=family, with script one of ${SCRIPT_NAMES.join(', ')}.`);
+  }
+  return { ...previous, [script]: [...(previous[script] || []), family] };
+}
+
+// Repeatable: --credit "Lyrics: …" --credit "Translation: …"
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Gap fillers from the flags; any of them turns gap detection on
+ */
+function gapConfig(options: RenderOptions): GapConfig | undefined {
+  const { gapIndicator, minGap, instrumentalLabel, titleCard } = options;
+  if (gapIndicator === undefined && minGap === undefined && instrumentalLabel === undefined && !titleCard) {
+    return undefined;
+  }
+  return { indicator: gapIndicator, minGapMs: minGap, instrumentalLabel, titleCard };
+}
+
+/**
+ * Background settings from the flags; without --background the type follows
+ * --background-file or --gradient, else the default pixelated thumbnail
+ */
+function backgroundConfig(options: RenderOptions): BackgroundConfig {
+  const defaults = DEFAULT_VIDEO_CONFIG.background!;
+  const fileType: BackgroundType | undefined = options.backgroundFile
+    ? (BACKGROUND_VIDEO_EXTENSIONS.includes(extname(options.backgroundFile).toLowerCase()) ? 'video' : 'image')
+    : undefined;
+  const type = options.background || fileType || (options.gradient ? 'gradient' : defaults.type);
+
+  return {
+    type,
+    colors: options.gradient,
+    blur: options.backgroundBlur,
+    pixelate: options.backgroundPixelate ?? (type === defaults.type ? defaults.pixelate : undefined),
+    dim: options.backgroundDim ?? defaults.dim
+  };
+}
+
+/**
+ * Downloads transcript and audio, renders frames and encodes the final video
+ */
+async function render(url: string, options: RenderOptions): Promise<void> {
+  const extractor = new YouTubeExtractor();
+  const videoId = extractor.extractVideoId(url);
+
+  const workDir = resolve(options.workDir || join(process.cwd(), 'output', videoId));
+  const framesDir = join(workDir, 'frames');
+  if (!existsSync(workDir)) await mkdir(workDir, { recursive: true });
+
+  // 1. Pick languages
+  const available = await extractor.getAvailableLanguages(url);
+  const languages = options.languages || extractor.selectPreferredLanguages(available);
+  if (languages.length === 0) {
+    throw new Error('No subtitle languages available for this video.');
+  }
+  const autoLanguages = available.filter(lang => lang.isAuto).map(lang => lang.code);
+
+  // 2. Download Transcript
+  let { items: transcript } = await extractor.downloadTranscript(url, languages, {
+    autoLanguages,
+    languageOffsets: options.languageOffset,
+    mergePolicy: options.mergePolicy
+  });
+  if (transcript.length === 0) {
+    throw new Error('No transcript available for this video. The video may not have captions/subtitles.');
+  }
+  console.log(`✅ Got ${transcript.length} transcript items`);
+
+  // 3. Download Audio
+  const audioPath = await extractor.downloadAudio(url, join(workDir, 'audio.webm'));
+
+  const background = backgroundConfig(options);
+  const gaps = gapConfig(options);
+  const assets: BackgroundAssets = {};
+  if (options.backgroundFile) {
+    assets[background.type === 'video' ? 'video' : 'image'] = resolve(options.backgroundFile);
+  }
+  if (background.type === 'thumbnail') {
+    try {
+      assets.thumbnail = await extractor.downloadThumbnail(url, workDir);
+    } catch (error) {
+      console.warn('⚠️ Could not download the thumbnail:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  if (options.autoAlign) {
+    console.log('🎯 Aligning lyrics to the audio...');
+    const { items, adjustments } = await new LyricAligner({ offsetMs: options.offset }).align(transcript, audioPath);
+    transcript = items;
+    console.log(`✅ Adjusted ${adjustments.length} of ${transcript.length} cues`);
+  }
+
+  // 4. Render
+  const config = resolveVideoConfig({
+    width: options.width,
+    height: options.height,
+    fps: options.fps,
+    fontSize: options.fontSize,
+    fontFamily: options.fontFamily,
+    fontWeight: options.fontWeight,
+    fallbackFonts: options.fallbackFont,
+    textColor: options.textColor,
+    backgroundColor: options.backgroundColor,
+    background,
+    visualizer: options.visualizer
+      ? { style: options.visualizer, position: options.visualizerPosition, bars: options.visualizerBars, color: options.visualizerColor }
+      : undefined,
+    transition: options.transition ? { type: options.transition, durationMs: options.transitionDuration } : undefined,
+    gaps,
+    introCard: options.introCard ? { durationMs: options.cardDuration } : undefined,
+    outroCard: options.outroCard || options.credit
+      ? { durationMs: options.cardDuration, lines: options.credit }
+      : undefined,
+    renderMode: options.renderMode,
+    karaoke: options.karaoke,
+    highlightColor: options.highlightColor,
+    maxLines: options.maxLines,
+    autoFit: options.autoFit,
+    pixelScale: options.pixelScale,
+    palette: options.palette,
+    offsetMs: options.offset,
+    languageOffsets: options.languageOffset,
+    mergePolicy: options.mergePolicy,
+    autoAlign: options.autoAlign
+  });
+  const generator = new VideoGenerator(config);
+  await generator.prepareBackground(assets);
+  await generator.prepareVisualizer(audioPath);
+  if (gaps?.titleCard || config.introCard || config.outroCard) {
+    try {
+      const metadata = await extractor.getMetadata(url);
+      generator.setSongInfo({
+        title: metadata.track || metadata.title,
+        artist: metadata.artist || metadata.uploader,
+        durationMs: metadata.durationMs
+      });
+    } catch (error) {
+      console.warn('⚠️ Could not fetch the video metadata:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  const outputPath = resolve(options.output);
+  if (!existsSync(dirname(outputPath))) await mkdir(dirname(outputPath), { recursive: true });
+
+  let lastPercent = -1;
+  const reportProgress = (frameNum: number, total: number) => {
+    const percent = Math.floor((frameNum / total) * 100);
+    if (percent !== lastPercent) {
+      lastPercent = percent;
+      process.stdout.write(`\r🖼️  Frames: ${frameNum}/${total} (${percent}%)`);
+    }
+  };
+
+  if (config.renderMode === 'frames') {
+    console.log('🎨 Generating frames...');
+    if (!existsSync(framesDir)) await mkdir(framesDir, { recursive: true });
+    const { totalFrames } = await generator.generateFrames(transcript, framesDir, config.fps, reportProgress);
+    console.log('');
+
+    console.log('🎬 Encoding video...');
+    await generator.createVideo(framesDir, audioPath, outputPath, config.fps, totalFrames);
+  } else if (config.renderMode === 'segments') {
+    console.log('🎨 Rasterizing lyric segments...');
+    const segmentsDir = join(workDir, 'segments');
+    if (!existsSync(segmentsDir)) await mkdir(segmentsDir, { recursive: true });
+    const { listPath, totalSegments, totalFrames } = await generator.generateSegments(transcript, segmentsDir, config.fps);
+    console.log(`✅ ${totalSegments} segments`);
+
+    console.log('🎬 Encoding video...');
+    await generator.createVideoFromSegments(listPath, audioPath, outputPath, config.fps, totalFrames, (percent) => {
+      process.stdout.write(`\r⏳ Progress: ${percent}%`);
+    });
+    console.log('');
+  } else {
+    console.log('🎬 Rendering video...');
+    await generator.renderVideo(transcript, audioPath, outputPath, config.fps, reportProgress);
+    console.log('');
+  }
+
+  console.log(`✅ Video saved to ${outputPath}`);
+}
+
+/**
+ * Prints the subtitle languages yt-dlp reports for a video
+ */
+async function listLanguages(url: string): Promise<void> {
+  const extractor = new YouTubeExtractor();
+  const languages = await extractor.getAvailableLanguages(url);
+
+  if (languages.length === 0) {
+    console.log('No subtitles or captions available for this video.');
+    return;
+  }
+
+  for (const lang of languages) {
+    console.log(`${lang.code.padEnd(12)} ${lang.name}${lang.isAuto ? ' (auto-generated)' : ''}`);
+  }
+}
+
+function listFonts(): void {
+  fontRegistry.scan();
+  const fonts = fontRegistry.list();
+
+  if (fonts.length === 0) {
+    console.log('No fonts found. Put TTF/OTF files in fonts/.');
+    return;
+  }
+
+  for (const font of fonts) {
+    console.log(`${font.family.padEnd(28)} ${font.weight}/${font.style}  ${font.file}`);
+  }
+}
+
+export function createCli(): Command {
+  const program = new Command();
+
+  program
+    .name('mrlyrics')
+    .description('YouTube lyrics video generator with pixelated fonts');
+
+  program
+    .command('render')
+    .description('Render a lyrics video for a YouTube URL')
+    .argument('<url>', 'YouTube URL or video ID')
+    // -h is taken by --height, so help is only available as --help
+    .helpOption('--help', 'display help for command')
+    .option('-o, --output <path>', 'output video path', 'output/lyrics-video.mp4')
+    .option('-d, --work-dir <path>', 'directory for frames and audio (default: output/<videoId>)')
+    .option('-l, --languages <codes>', 'comma-separated subtitle language codes (default: auto-select)', parseLanguageList)
+    .option('-w, --width <number>', 'video width in pixels', parseInteger, DEFAULT_VIDEO_CONFIG.width)
+    .option('-h, --height <number>', 'video height in pixels', parseInteger, DEFAULT_VIDEO_CONFIG.height)
+    .option('-r, --fps <number>', 'frames per second', parseInteger, DEFAULT_VIDEO_CONFIG.fps)
+    .option('-f, --font-size <number>', 'font size in pixels', parseInteger, 80)
+    .option('--font-family <name>', 'font family (see `mrlyrics fonts`)', DEFAULT_VIDEO_CONFIG.fontFamily)
+    .addOption(
+      new Option('--font-weight <weight>', 'font weight')
+        .choices(['normal', 'bold'])
+        .default(DEFAULT_VIDEO_CONFIG.fontWeight)
+    )
+    .option('--fallback-font <script=family>', 'font for glyphs the main font lacks, e.g. cjk=Zpix (repeatable)', parseFallbackFont)
+    .option('--text-color <color>', 'text color', DEFAULT_VIDEO_CONFIG.textColor)
+    .option('--background-color <color>', 'background color', DEFAULT_VIDEO_CONFIG.backgroundColor)
+    .addOption(
+      new Option('--background <type>', 'what goes behind the lyrics (default: thumbnail, or the --background-file / --gradient type)')
+        .choices(['solid', 'gradient', 'image', 'video', 'thumbnail'])
+    )
+    .option('--background-file <path>', 'background image or looping video')
+    .option('--gradient <colors>', 'comma-separated gradient colors, top to bottom', parseColorList)
+    .option('--background-blur <px>', 'blur the background image or thumbnail', parseInteger)
+    .option('--background-pixelate <px>', 'pixelate the background image or thumbnail into blocks of this size', parseInteger)
+    .option('--background-dim <amount>', 'darken background images and video, from 0 to 1', parseFraction)
+    .addOption(
+      new Option('--render-mode <mode>', 'pipe frames into FFmpeg, write a PNG sequence first, or encode one still per lyric change')
+        .choices(['stream', 'frames', 'segments'])
+        .default(DEFAULT_VIDEO_CONFIG.renderMode)
+    )
+    .option('--max-lines <number>', 'lines per language before text is shrunk or cut', parseInteger, DEFAULT_VIDEO_CONFIG.maxLines)
+    .option('--no-auto-fit', 'cut lines past --max-lines instead of shrinking the font to fit')
+    .option('--pixel-scale <number>', 'draw frames this many times smaller and upscale them with hard pixel edges', parseInteger, DEFAULT_VIDEO_CONFIG.pixelScale)
+    .option('--palette <colors>', 'comma-separated colors --pixel-scale lyrics are snapped to (default: the text colors in use)', parseColorList)
+    .addOption(
+      new Option('--visualizer <style>', 'draw audio-reactive pixel blocks under the lyrics')
+        .choices(['spectrum', 'waveform'])
+    )
+    .addOption(
+      new Option('--visualizer-position <position>', 'where the visualizer sits')
+        .choices(['bottom', 'center', 'top'])
+        .default('bottom')
+    )
+    .option('--visualizer-bars <number>', 'spectrum bands or waveform columns (default: 32)', parseInteger)
+    .option('--visualizer-color <color>', 'visualizer color (default: the text color)')
+    .addOption(
+      new Option('--transition <type>', 'animate each new lyric line in')
+        .choices(['none', 'typewriter', 'fade', 'slide', 'glitch', 'scroll'])
+    )
+    .option('--transition-duration <ms>', 'transition length, at most half the line (default: 300)', parseInteger)
+    .addOption(
+      new Option('--gap-indicator <style>', 'count down to the next line during long gaps')
+        .choices(['dots', 'bar', 'none'])
+    )
+    .option('--min-gap <ms>', 'gaps at least this long get the label and countdown (default: 5000)', parseInteger)
+    .option('--instrumental-label <text>', 'label shown during gaps (default: "♪ instrumental ♪")')
+    .option('--no-instrumental-label', 'show no label during gaps')
+    .option('--title-card', 'show the video title and artist during the intro')
+    .option('--intro-card', 'open with a title card before the song starts')
+    .option('--outro-card', 'end with a credits card after the song')
+    .option('--credit <text>', 'a line on the outro card, e.g. "Lyrics: …" (repeatable; implies --outro-card)', collect)
+    .option('--card-duration <ms>', 'how long the intro and outro cards show (default: 4000)', parseInteger)
+    .option('--karaoke', 'highlight each word as it is sung (needs word-timed captions)')
+    .option('--highlight-color <color>', 'karaoke highlight color (default: #FFD700)')
+    .option('--offset <ms>', 'shift all lyrics by this many milliseconds (positive = later)', parseOffset)
+    .option('--language-offset <pairs>', 'extra shift per language, e.g. en=-250,ja=400', parseLanguageOffsets)
+    .addOption(
+      new Option('--merge-policy <policy>', 'keep the first language\'s line timing, or let each language change lines independently')
+        .choices(['base', 'independent'])
+        .default('base')
+    )
+    .option('--auto-align', 'snap lyric timing to vocal onsets and pauses in the audio')
+    .action(render);
+
+  program
+    .command('languages')
+    .description('List available subtitle languages for a YouTube URL')
+    .argument('<url>', 'YouTube URL or video ID')
+    .action(listLanguages);
+
+  program
+    .command('fonts')
+    .description('List the font families available for --font-family')
+    .action(listFonts);
+
+  program
+    .command('serve', { isDefault: true })
+    .description('Start the web interface (default)')
+    .option('-p, --port <number>', 'port to listen on', parseInteger, parseInt(process.env.PORT || '3000', 10))
+    .action(async (options: { port: number }) => {
+      // Imported lazily so headless commands don't boot the web server
+      const { Server } = await import('./server.js');
+      new Server().start(options.port);
+    });
+
+  return program;
+}
+
+export async function runCli(argv: string[] = process.argv): Promise<void> {
+  const program = createCli();
+  const args = argv.slice(2);
+
+  // Support the documented shorthand `mrlyrics <youtube-url> [options]`
+  const commandNames = program.commands.map(command => command.name());
+  if (args.length > 0 && !args[0].startsWith('-') && !commandNames.includes(args[0])) {
+    args.unshift('render');
+  }
+
+  await program.parseAsync(args, { from: 'user' });
+}
@@ -0,0 +1,48 @@
+import { CardConfig, VideoConfig } from './types.js';
+
+const DEFAULT_CARD_DURATION_MS = 4000;
+
+export const DEFAULT_VIDEO_CONFIG: VideoConfig = {
+  width: 1920,
+  height: 1080,
+  fps: 30,
+  backgroundColor: '#000000',
+  // Pixel lyrics over pixelated album art; falls back to backgroundColor without a thumbnail
+  background: { type: 'thumbnail', pixelate: 24, dim: 0.5 },
+  textColor: '#FFFFFF',
+  fontSize: 48,
+  fontFamily: 'Pixelify Sans',
+  fontWeight: 'bold',
+  renderMode: 'stream',
+  maxLines: 2,
+  autoFit: true,
+  safeMargin: 0.05,
+  pixelScale: 1,
+  mergePolicy: 'base'
+};
+
+/**
+ * Fills in any missing VideoConfig fields with the defaults
+ */
+export function resolveVideoConfig(config?: Partial<VideoConfig>): VideoConfig {
+  // Skip explicit undefined so unset CLI flags / form fields keep the default
+  const defined = Object.fromEntries(
+    Object.entries(config || {}).filter(([, value]) => value !== undefined)
+  ) as Partial<VideoConfig>;
+  return { ...DEFAULT_VIDEO_CONFIG, ...defined };
+}
+
+function cardDuration(card: CardConfig | undefined): number {
+  return card ? card.durationMs ?? DEFAULT_CARD_DURATION_MS : 0;
+}
+
+/**
+ * How long the intro card delays the lyrics and the audio; 0 without one
+ */
+export function introDuration(config: VideoConfig): number {
+  return cardDuration(config.introCard);
+}
+
+export function outroDuration(config: VideoConfig): number {
+  return cardDuration(config.outroCard);
+}
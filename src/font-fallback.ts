@@ -0,0 +1,112 @@
+import { ScriptName } from './types.js';
+
+/**
+ * Splits lyric text into single-script runs and picks a font for each one.
+ * Kept free of canvas; glyph coverage comes from the caller (the font registry).
+ */
+
+export interface ScriptRun {
+  script: ScriptName;
+  text: string;
+}
+
+export interface FontRun {
+  family: string;
+  text: string;
+}
+
+export type CoversGlyph = (family: string, char: string) => boolean;
+
+// Script_Extensions, so marks like 。 and ー count as CJK rather than common punctuation
+const SCRIPT_PATTERNS: [ScriptName, RegExp][] = [
+  ['latin', /\p{Script_Extensions=Latin}/u],
+  ['cyrillic', /\p{Script_Extensions=Cyrillic}/u],
+  ['greek', /\p{Script_Extensions=Greek}/u],
+  ['cjk', /[\p{Script_Extensions=Han}\p{Script_Extensions=Hiragana}\p{Script_Extensions=Katakana}\p{Script_Extensions=Bopomofo}]/u],
+  ['hangul', /\p{Script_Extensions=Hangul}/u],
+  ['mongolian', /\p{Script_Extensions=Mongolian}/u],
+  ['arabic', /\p{Script_Extensions=Arabic}/u],
+  ['hebrew', /\p{Script_Extensions=Hebrew}/u],
+  ['thai', /\p{Script_Extensions=Thai}/u],
+  ['devanagari', /\p{Script_Extensions=Devanagari}/u]
+];
+
+const COMMON = /[\p{Script=Common}\p{Script=Inherited}]/u;
+const WHITESPACE = /\s/u;
+
+export function detectScript(char: string): ScriptName {
+  for (const [script, pattern] of SCRIPT_PATTERNS) {
+    if (pattern.test(char)) return script;
+  }
+  return COMMON.test(char) ? 'common' : 'other';
+}
+
+/**
+ * Groups characters by script. Punctuation, digits and spaces join the run
+ * before them (or the first run, at the start of the text).
+ */
+export function splitScriptRuns(text: string): ScriptRun[] {
+  const runs: ScriptRun[] = [];
+  let leadingCommon = '';
+
+  for (const char of text) {
+    const script = detectScript(char);
+    const last = runs[runs.length - 1];
+    if (script === 'common') {
+      if (last) last.text += char;
+      else leadingCommon += char;
+    } else if (last && last.script === script) {
+      last.text += char;
+    } else {
+      runs.push({ script, text: leadingCommon + char });
+      leadingCommon = '';
+    }
+  }
+  if (leadingCommon) runs.push({ script: 'common', text: leadingCommon });
+
+  return runs;
+}
+
+/**
+ * Assigns a font family to every character. A run stays in one font when a
+ * candidate covers all of it; otherwise each character gets the first candidate
+ * that has its glyph. Characters no candidate covers stay in the primary family
+ * and are added to `missing`.
+ */
+export function assignFonts(
+  text: string,
+  primary: string,
+  candidatesFor: (script: ScriptName) => string[],
+  covers: CoversGlyph,
+  missing?: Set<string>
+): FontRun[] {
+  const runs: FontRun[] = [];
+  const push = (family: string, value: string) => {
+    const last = runs[runs.length - 1];
+    if (last && last.family === family) last.text += value;
+    else runs.push({ family, text: value });
+  };
+
+  for (const run of splitScriptRuns(text)) {
+    const candidates = Array.from(new Set([primary, ...candidatesFor(run.script)]));
+    const chars = Array.from(run.text);
+    const coversChar = (family: string, char: string) => WHITESPACE.test(char) || covers(family, char);
+
+    const whole = candidates.find(family => chars.every(char => coversChar(family, char)));
+    if (whole) {
+      push(whole, run.text);
+      continue;
+    }
+
+    for (const char of chars) {
+      // Spaces take the font of the text they follow
+      const family = WHITESPACE.test(char)
+        ? runs[runs.length - 1]?.family ?? primary
+        : candidates.find(candidate => covers(candidate, char));
+      if (!family) missing?.add(char);
+      push(family ?? primary, char);
+    }
+  }
+
+  return runs;
+}
@@ -0,0 +1,292 @@
+import { registerFont } from 'canvas';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import { basename, extname, join } from 'path';
+
+export const FONT_EXTENSIONS = ['.ttf', '.otf'];
+
+export interface FontInfo {
+  family: string;
+  weight: 'normal' | 'bold';
+  style: 'normal' | 'italic';
+  file: string;
+}
+
+interface FontNames {
+  family: string;
+  weight: 'normal' | 'bold';
+  style: 'normal' | 'italic';
+}
+
+type TableDirectory = Map<string, { offset: number; length: number }>;
+
+/**
+ * Table offsets of a TrueType/OpenType file; null for anything that isn't a single font
+ */
+function readTableDirectory(data: Buffer): TableDirectory | null {
+  if (data.length < 12) return null;
+  const version = data.readUInt32BE(0);
+  // 0x00010000 and 'true' are TrueType outlines, 'OTTO' is CFF; collections ('ttcf') aren't supported
+  if (version !== 0x00010000 && version !== 0x74727565 && version !== 0x4f54544f) return null;
+
+  const tables: TableDirectory = new Map();
+  const numTables = data.readUInt16BE(4);
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    if (record + 16 > data.length) return null;
+    tables.set(data.toString('latin1', record, record + 4), {
+      offset: data.readUInt32BE(record + 8),
+      length: data.readUInt32BE(record + 12)
+    });
+  }
+  return tables;
+}
+
+/**
+ * Reads the family name, weight and style from a TrueType/OpenType file's
+ * `name` and `OS/2` tables. Returns null for anything that isn't a single font.
+ */
+export function readFontNames(data: Buffer): FontNames | null {
+  const tables = readTableDirectory(data);
+  if (!tables) return null;
+
+  const nameTable = tables.get('name');
+  if (!nameTable || nameTable.offset + 6 > data.length) return null;
+
+  const count = data.readUInt16BE(nameTable.offset + 2);
+  const stringsStart = nameTable.offset + data.readUInt16BE(nameTable.offset + 4);
+  const names = new Map<number, { score: number; value: string }>();
+
+  for (let i = 0; i < count; i++) {
+    const record = nameTable.offset + 6 + i * 12;
+    if (record + 12 > data.length) break;
+    const platformId = data.readUInt16BE(record);
+    const encodingId = data.readUInt16BE(record + 2);
+    const languageId = data.readUInt16BE(record + 4);
+    const nameId = data.readUInt16BE(record + 6);
+    const length = data.readUInt16BE(record + 8);
+    const start = stringsStart + data.readUInt16BE(record + 10);
+    if (start + length > data.length) continue;
+
+    // Prefer Windows US English (UTF-16BE), then any Windows Unicode name, then Mac Roman
+    let value: string;
+    let score: number;
+    if (platformId === 3 && (encodingId === 1 || encodingId === 10)) {
+      value = '';
+      for (let offset = start; offset + 1 < start + length; offset += 2) {
+        value += String.fromCharCode(data.readUInt16BE(offset));
+      }
+      score = languageId === 0x0409 ? 3 : 2;
+    } else if (platformId === 1 && encodingId === 0) {
+      value = data.toString('latin1', start, start + length);
+      score = 1;
+    } else {
+      continue;
+    }
+
+    const existing = names.get(nameId);
+    if (value && (!existing || score > existing.score)) {
+      names.set(nameId, { score, value });
+    }
+  }
+
+  // 16/17 are the typographic family/subfamily; 1/2 the legacy four-style ones
+  const family = names.get(16)?.value || names.get(1)?.value;
+  if (!family) return null;
+  const subfamily = (names.get(17)?.value || names.get(2)?.value || '').toLowerCase();
+
+  let weight: FontNames['weight'] = /bold|black|heavy/.test(subfamily) ? 'bold' : 'normal';
+  let style: FontNames['style'] = /italic|oblique/.test(subfamily) ? 'italic' : 'normal';
+
+  const os2 = tables.get('OS/2');
+  if (os2 && os2.length >= 64 && os2.offset + 64 <= data.length) {
+    weight = data.readUInt16BE(os2.offset + 4) >= 600 ? 'bold' : 'normal';
+    if (data.readUInt16BE(os2.offset + 62) & 1) style = 'italic';
+  }
+
+  return { family: family.trim(), weight, style };
+}
+
+/**
+ * Code points the font has glyphs for, from the Unicode subtable of its `cmap`
+ * (format 12 for fonts beyond the BMP, else format 4). Empty when there is none.
+ */
+export function readFontCoverage(data: Buffer): Set<number> {
+  const coverage = new Set<number>();
+  const cmap = readTableDirectory(data)?.get('cmap');
+  if (!cmap || cmap.offset + 4 > data.length) return coverage;
+
+  let format4: number | null = null;
+  let format12: number | null = null;
+  const count = data.readUInt16BE(cmap.offset + 2);
+  for (let i = 0; i < count; i++) {
+    const record = cmap.offset + 4 + i * 8;
+    if (record + 8 > data.length) break;
+    const platformId = data.readUInt16BE(record);
+    const encodingId = data.readUInt16BE(record + 2);
+    const subtable = cmap.offset + data.readUInt32BE(record + 4);
+    // Unicode platform, or Windows BMP (1) / full repertoire (10)
+    const unicode = platformId === 0 || (platformId === 3 && (encodingId === 1 || encodingId === 10));
+    if (!unicode || subtable + 2 > data.length) continue;
+
+    const format = data.readUInt16BE(subtable);
+    if (format === 12 && format12 === null) format12 = subtable;
+    if (format === 4 && format4 === null) format4 = subtable;
+  }
+
+  try {
+    if (format12 !== null) {
+      const groups = data.readUInt32BE(format12 + 12);
+      for (let i = 0; i < groups; i++) {
+        const group = format12 + 16 + i * 12;
+        const start = data.readUInt32BE(group);
+        const end = Math.min(data.readUInt32BE(group + 4), 0x10ffff);
+        const startGlyph = data.readUInt32BE(group + 8);
+        // Glyph 0 is .notdef, i.e. no glyph
+        for (let code = startGlyph === 0 ? start + 1 : start; code <= end; code++) coverage.add(code);
+      }
+    } else if (format4 !== null) {
+      const segments = data.readUInt16BE(format4 + 6) / 2;
+      const endCodes = format4 + 14;
+      const startCodes = endCodes + segments * 2 + 2;
+      const idDeltas = startCodes + segments * 2;
+      const idRangeOffsets = idDeltas + segments * 2;
+
+      for (let segment = 0; segment < segments; segment++) {
+        const start = data.readUInt16BE(startCodes + segment * 2);
+        const end = data.readUInt16BE(endCodes + segment * 2);
+        const delta = data.readInt16BE(idDeltas + segment * 2);
+        const rangeOffsetPosition = idRangeOffsets + segment * 2;
+        const rangeOffset = data.readUInt16BE(rangeOffsetPosition);
+
+        for (let code = start; code <= end && code !== 0xffff; code++) {
+          let glyph: number;
+          if (rangeOffset === 0) {
+            glyph = (code + delta) & 0xffff;
+          } else {
+            // idRangeOffset is relative to its own position in the table
+            const raw = data.readUInt16BE(rangeOffsetPosition + rangeOffset + (code - start) * 2);
+            glyph = raw === 0 ? 0 : (raw + delta) & 0xffff;
+          }
+          if (glyph !== 0) coverage.add(code);
+        }
+      }
+    }
+  } catch {
+    // A truncated table still tells us about the glyphs read so far
+  }
+
+  return coverage;
+}
+
+/**
+ * Finds TTF/OTF files, registers them with node-canvas under the family names
+ * stored in the files, and keeps uploaded fonts alongside the bundled ones.
+ * Fonts must be registered before the canvas that uses them is created.
+ */
+export class FontRegistry {
+  private fonts = new Map<string, FontInfo>(); // by file path
+  private coverage = new Map<string, Set<number>>(); // code points per lowercased family, across its files
+  private fontsDir: string;
+  private extraPaths: string[];
+
+  constructor(fontsDir: string, extraPaths: string[] = []) {
+    this.fontsDir = fontsDir;
+    this.extraPaths = extraPaths;
+  }
+
+  /**
+   * Registers any font files that appeared since the last scan; returns the new ones
+   */
+  scan(): FontInfo[] {
+    const paths: string[] = [];
+    if (existsSync(this.fontsDir)) {
+      for (const file of readdirSync(this.fontsDir)) {
+        if (FONT_EXTENSIONS.includes(extname(file).toLowerCase())) {
+          paths.push(join(this.fontsDir, file));
+        }
+      }
+    }
+    paths.push(...this.extraPaths.filter(path => existsSync(path)));
+
+    const added: FontInfo[] = [];
+    for (const path of paths) {
+      if (this.fonts.has(path)) continue;
+      // A bundled copy and a system copy of the same file only need registering once
+      if (Array.from(this.fonts.values()).some(font => basename(font.file) === basename(path))) continue;
+
+      try {
+        const font = this.register(path, readFileSync(path));
+        if (font) added.push(font);
+      } catch (error) {
+        console.warn(`⚠️ Could not register font ${path}:`, error);
+      }
+    }
+    return added;
+  }
+
+  /**
+   * Saves an uploaded font into the fonts directory and registers it
+   */
+  async add(filename: string, data: Buffer): Promise<FontInfo> {
+    const name = basename(filename);
+    if (!FONT_EXTENSIONS.includes(extname(name).toLowerCase())) {
+      throw new Error(`Unsupported font file. Use one of: ${FONT_EXTENSIONS.join(', ')}`);
+    }
+    if (!readFontNames(data)) {
+      throw new Error(`${name} is not a readable TrueType/OpenType font`);
+    }
+
+    if (!existsSync(this.fontsDir)) await mkdir(this.fontsDir, { recursive: true });
+    const path = join(this.fontsDir, name);
+    await writeFile(path, data);
+
+    // Re-uploading a file replaces it, but node-canvas keeps the first registration
+    this.fonts.delete(path);
+    return this.register(path, data)!;
+  }
+
+  list(): FontInfo[] {
+    return Array.from(this.fonts.values());
+  }
+
+  families(): string[] {
+    return Array.from(new Set(this.list().map(font => font.family))).sort();
+  }
+
+  has(family: string): boolean {
+    const wanted = family.toLowerCase();
+    return this.list().some(font => font.family.toLowerCase() === wanted);
+  }
+
+  /**
+   * Whether any registered file of the family has a glyph for the character
+   */
+  covers(family: string, char: string): boolean {
+    return this.coverage.get(family.toLowerCase())?.has(char.codePointAt(0)!) ?? false;
+  }
+
+  private register(path: string, data: Buffer): FontInfo | null {
+    const names = readFontNames(data);
+    if (!names) {
+      console.warn(`⚠️ Skipping ${path}: not a TrueType/OpenType font`);
+      return null;
+    }
+
+    registerFont(path, { family: names.family, weight: names.weight, style: names.style });
+
+    const key = names.family.toLowerCase();
+    const coverage = this.coverage.get(key) || new Set<number>();
+    for (const code of readFontCoverage(data)) coverage.add(code);
+    this.coverage.set(key, coverage);
+
+    const font: FontInfo = { ...names, file: path };
+    this.fonts.set(path, font);
+    return font;
+  }
+}
+
+// Bundled fonts live in fonts/; the Docker image also installs Pixelify Sans system-wide
+export const fontRegistry = new FontRegistry(join(process.cwd(), 'fonts'), [
+  '/usr/share/fonts/truetype/pixelify/PixelifySans-Regular.ttf'
+]);
@@ -0,0 +1,88 @@
+import { GapConfig, GapIndicator, TranscriptItem } from './types.js';
+
+/**
+ * Long stretches without lyrics (the intro, solos) and what fills them. Like
+ * transitions, the indicator is a pure function of the frame time and stepped,
+ * so a gap is only rendered once per countdown step. The intro and outro cards
+ * added around the song are gaps of their own.
+ */
+
+export const DEFAULT_INSTRUMENTAL_LABEL = '♪ instrumental ♪';
+const DEFAULT_MIN_GAP_MS = 5000;
+const DEFAULT_COUNTDOWN_MS = 3000;
+const DOT_STEPS = 3; // one dot per step goes out
+const BAR_STEPS = 16; // blocks in the countdown bar
+
+export type CardKind = 'intro' | 'outro';
+
+export interface LyricGap {
+  start: number; // ms, when the previous line ends (0 for the intro)
+  end: number; // ms, when the next line starts
+  intro: boolean;
+  card?: CardKind; // an intro or outro card rather than a gap in the song
+}
+
+export interface GapFrame {
+  card: CardKind | null;
+  countdown: { indicator: Exclude<GapIndicator, 'none'>; remaining: number; steps: number } | null; // dots or bar blocks still lit
+  label: string | null; // instrumental label
+  titleCard: boolean;
+  key: string; // what sets this frame apart, for the frame key
+}
+
+/**
+ * Gaps of at least minGapMs before and between lines, from songStart (after any
+ * intro card); overlapping lines count as one
+ */
+export function findGaps(items: TranscriptItem[], config: GapConfig, songStart = 0): LyricGap[] {
+  const minGap = config.minGapMs ?? DEFAULT_MIN_GAP_MS;
+  const gaps: LyricGap[] = [];
+  let cursor = songStart;
+
+  [...items]
+    .sort((a, b) => a.offset - b.offset)
+    .forEach((item, index) => {
+      if (item.offset - cursor >= minGap) {
+        gaps.push({ start: cursor, end: item.offset, intro: index === 0 });
+      }
+      cursor = Math.max(cursor, item.offset + item.duration);
+    });
+
+  return gaps;
+}
+
+export function gapAt(gaps: LyricGap[], timeMs: number): LyricGap | undefined {
+  return gaps.find(gap => timeMs >= gap.start && timeMs < gap.end);
+}
+
+/**
+ * What the gap shows at timeMs: the title card or instrumental label, then a
+ * countdown over the last countdownMs before the next line
+ */
+export function gapFrame(config: GapConfig, gap: LyricGap, timeMs: number, hasTitle: boolean): GapFrame {
+  if (gap.card) {
+    return { card: gap.card, countdown: null, label: null, titleCard: false, key: `card-${gap.card}` };
+  }
+
+  const titleCard = gap.intro && (config.titleCard ?? false) && hasTitle;
+  const label = titleCard || config.instrumentalLabel === false
+    ? null
+    : config.instrumentalLabel || DEFAULT_INSTRUMENTAL_LABEL;
+
+  let countdown: GapFrame['countdown'] = null;
+  const indicator = config.indicator ?? 'dots';
+  const countdownMs = Math.min(config.countdownMs ?? DEFAULT_COUNTDOWN_MS, gap.end - gap.start);
+  const left = gap.end - timeMs;
+  if (indicator !== 'none' && countdownMs > 0 && left <= countdownMs) {
+    const steps = indicator === 'bar' ? BAR_STEPS : DOT_STEPS;
+    countdown = { indicator, remaining: Math.max(1, Math.ceil((left / countdownMs) * steps)), steps };
+  }
+
+  return {
+    card: null,
+    countdown,
+    label,
+    titleCard,
+    key: `${titleCard ? 'T' : ''}${label ? 'i' : ''}${countdown ? `${indicator}${countdown.remaining}` : ''}`
+  };
+}
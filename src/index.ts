@@ -1,5 +1,7 @@
-import { Server } from './server.js';
+#!/usr/bin/env node
+import { runCli } from './cli.js';
 
-const server = new Server();
-const port = parseInt(process.env.PORT || '3000', 10);
-server.start(port);
+runCli().catch((error) => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,89 @@
+interface Job {
+  id: string;
+  controller: AbortController;
+  run: (signal: AbortSignal) => Promise<void>;
+}
+
+/**
+ * Runs background jobs with a cap on how many execute at once.
+ * Each job gets an AbortSignal so it can be cancelled while queued or running.
+ */
+export class JobQueue {
+  private maxConcurrent: number;
+  private waiting: Job[] = [];
+  private running = new Map<string, Job>();
+  private onQueueChanged?: (waitingIds: string[]) => void;
+
+  constructor(maxConcurrent: number, onQueueChanged?: (waitingIds: string[]) => void) {
+    // A bad setting (e.g. NaN from a non-numeric env var) would otherwise never start a job
+    this.maxConcurrent = Number.isFinite(maxConcurrent) ? Math.max(1, Math.floor(maxConcurrent)) : 1;
+    this.onQueueChanged = onQueueChanged;
+  }
+
+  /**
+   * Adds a job; returns false if a job with the same id is already queued or running
+   */
+  enqueue(id: string, run: (signal: AbortSignal) => Promise<void>): boolean {
+    if (this.has(id)) return false;
+
+    this.waiting.push({ id, controller: new AbortController(), run });
+    this.drain();
+    return true;
+  }
+
+  /**
+   * Aborts a running job or drops a waiting one
+   */
+  cancel(id: string): boolean {
+    const running = this.running.get(id);
+    if (running) {
+      running.controller.abort();
+      return true;
+    }
+
+    const index = this.waiting.findIndex(job => job.id === id);
+    if (index !== -1) {
+      const [job] = this.waiting.splice(index, 1);
+      job.controller.abort();
+      this.notify();
+      return true;
+    }
+
+    return false;
+  }
+
+  has(id: string): boolean {
+    return this.running.has(id) || this.waiting.some(job => job.id === id);
+  }
+
+  /**
+   * 1-based position among waiting jobs, or null if the job isn't waiting
+   */
+  position(id: string): number | null {
+    const index = this.waiting.findIndex(job => job.id === id);
+    return index === -1 ? null : index + 1;
+  }
+
+  private drain(): void {
+    while (this.running.size < this.maxConcurrent && this.waiting.length > 0) {
+      const job = this.waiting.shift()!;
+      this.running.set(job.id, job);
+
+      job.run(job.controller.signal)
+        .catch(error => {
+          console.error(`Job ${job.id} failed:`, error);
+        })
+        .finally(() => {
+          this.running.delete(job.id);
+          this.drain();
+        });
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    if (this.onQueueChanged) {
+      this.onQueueChanged(this.waiting.map(job => job.id));
+    }
+  }
+}
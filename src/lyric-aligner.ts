@@ -0,0 +1,219 @@
+import { TranscriptItem } from './types.js';
+import { decodePcm } from './audio-decode.js';
+
+// Audio is decoded to 16 kHz mono and analysed in 10 ms hops
+const SAMPLE_RATE = 16000;
+const HOP_MS = 10;
+const HOP_SAMPLES = (SAMPLE_RATE * HOP_MS) / 1000;
+
+export interface AlignerOptions {
+  maxShiftMs?: number; // how far a cue edge may move (default 500)
+  minSilenceMs?: number; // shortest pause that counts as the end of a line (default 150)
+  minCueMs?: number; // cues are never shortened below this (default 300)
+  offsetMs?: number; // the global sync offset the captions are rendered with; cues are matched to the audio at their shifted times
+}
+
+export interface CueAdjustment {
+  index: number;
+  text: string;
+  startDeltaMs: number;
+  endDeltaMs: number;
+}
+
+export interface AlignmentResult {
+  items: TranscriptItem[];
+  adjustments: CueAdjustment[]; // only cues that actually moved
+}
+
+/**
+ * Snaps cue starts to vocal onsets and cue ends to the following silence,
+ * using an energy analysis of the decoded audio. Runs offline on the CPU;
+ * there is no speech model, so it only corrects timing, never the text.
+ */
+export class LyricAligner {
+  private maxShiftMs: number;
+  private minSilenceMs: number;
+  private minCueMs: number;
+  private offsetMs: number;
+
+  constructor(options: AlignerOptions = {}) {
+    this.maxShiftMs = options.maxShiftMs ?? 500;
+    this.minSilenceMs = options.minSilenceMs ?? 150;
+    this.minCueMs = options.minCueMs ?? 300;
+    this.offsetMs = options.offsetMs ?? 0;
+  }
+
+  /**
+   * Aligned items keep caption time (before offsetMs), so the offset is still applied once at render time
+   */
+  async align(items: TranscriptItem[], audioPath: string, signal?: AbortSignal): Promise<AlignmentResult> {
+    // Band-limited to the vocal range
+    const samples = await decodePcm(audioPath, { sampleRate: SAMPLE_RATE, filters: ['highpass=f=200', 'lowpass=f=3500'] }, signal);
+    return this.alignSamples(items, samples, signal);
+  }
+
+  /**
+   * Same as align, for audio already decoded to 16 kHz mono
+   */
+  alignSamples(items: TranscriptItem[], samples: Int16Array, signal?: AbortSignal): AlignmentResult {
+    const energy = this.energyEnvelope(samples);
+    const onsets = this.detectOnsets(energy);
+    const silent = this.detectSilence(energy);
+
+    const aligned: TranscriptItem[] = [];
+    const adjustments: CueAdjustment[] = [];
+
+    // Onsets and silences are found in audio time; cues are compared at the time they'll be heard
+    const shift = this.offsetMs;
+
+    for (let index = 0; index < items.length; index++) {
+      signal?.throwIfAborted();
+      const item = items[index];
+      const start = item.offset + shift;
+      const end = start + item.duration;
+      const last = aligned[aligned.length - 1];
+      const previousEnd = last ? last.offset + last.duration + shift : 0;
+
+      // A line can't start before the previous one has ended
+      let newStart = this.nearestOnset(onsets, start) ?? start;
+      newStart = Math.max(newStart, previousEnd);
+
+      let newEnd = this.silenceAfter(silent, end) ?? end;
+      newEnd = Math.max(newEnd, newStart + this.minCueMs);
+      const next = items[index + 1];
+      if (next) newEnd = Math.min(newEnd, Math.max(next.offset + shift, newStart + this.minCueMs));
+
+      const startDelta = newStart - start;
+      // Back to caption time; a cue the offset pushed before the audio starts stays at 0,
+      // and still lasts at least minCueMs
+      const offset = Math.max(0, newStart - shift);
+      aligned.push({
+        text: item.text,
+        offset,
+        duration: Math.max(this.minCueMs, newEnd - shift - offset),
+        // Word timings move with the line so karaoke stays in step
+        ...(item.words
+          ? { words: item.words.map(words => words.map(word => ({ text: word.text, offset: Math.max(0, word.offset + startDelta) }))) }
+          : {})
+      });
+
+      if (startDelta !== 0 || newEnd !== end) {
+        adjustments.push({ index, text: item.text.filter(Boolean).join(' / '), startDeltaMs: startDelta, endDeltaMs: newEnd - end });
+      }
+    }
+
+    return { items: aligned, adjustments };
+  }
+
+  /**
+   * Loudness in dB for every hop, lightly smoothed
+   */
+  private energyEnvelope(samples: Int16Array): Float64Array {
+    const hops = Math.floor(samples.length / HOP_SAMPLES);
+    const raw = new Float64Array(hops);
+    for (let hop = 0; hop < hops; hop++) {
+      let sum = 0;
+      for (let i = hop * HOP_SAMPLES; i < (hop + 1) * HOP_SAMPLES; i++) {
+        const value = samples[i] / 32768;
+        sum += value * value;
+      }
+      raw[hop] = 10 * Math.log10(sum / HOP_SAMPLES + 1e-10);
+    }
+
+    const smoothed = new Float64Array(hops);
+    for (let hop = 0; hop < hops; hop++) {
+      const from = Math.max(0, hop - 1);
+      const to = Math.min(hops - 1, hop + 1);
+      let sum = 0;
+      for (let i = from; i <= to; i++) sum += raw[i];
+      smoothed[hop] = sum / (to - from + 1);
+    }
+    return smoothed;
+  }
+
+  /**
+   * Onsets are local peaks of the energy rise that stand out from the song's average rise
+   */
+  private detectOnsets(energy: Float64Array): { timeMs: number; strength: number }[] {
+    const rise = new Float64Array(energy.length);
+    for (let hop = 3; hop < energy.length; hop++) {
+      rise[hop] = Math.max(0, energy[hop] - energy[hop - 3]);
+    }
+
+    let mean = 0;
+    for (const value of rise) mean += value;
+    mean /= rise.length || 1;
+    let variance = 0;
+    for (const value of rise) variance += (value - mean) ** 2;
+    const threshold = mean + Math.sqrt(variance / (rise.length || 1));
+
+    const onsets: { timeMs: number; strength: number }[] = [];
+    const neighborhood = 5; // 50 ms either side
+    for (let hop = 0; hop < rise.length; hop++) {
+      if (rise[hop] <= threshold) continue;
+      let isPeak = true;
+      for (let i = Math.max(0, hop - neighborhood); i <= Math.min(rise.length - 1, hop + neighborhood); i++) {
+        if (rise[i] > rise[hop]) {
+          isPeak = false;
+          break;
+        }
+      }
+      // The rise peaks a few hops into the note; report where it began
+      if (isPeak) onsets.push({ timeMs: Math.max(0, hop - 3) * HOP_MS, strength: rise[hop] });
+    }
+    return onsets;
+  }
+
+  /**
+   * Marks hops that are close to the song's noise floor
+   */
+  private detectSilence(energy: Float64Array): boolean[] {
+    const sorted = Array.from(energy).sort((a, b) => a - b);
+    const floor = sorted[Math.floor(sorted.length * 0.1)] ?? 0;
+    const loud = sorted[Math.floor(sorted.length * 0.9)] ?? 0;
+    const threshold = floor + (loud - floor) * 0.25;
+    return Array.from(energy, value => value < threshold);
+  }
+
+  /**
+   * Strongest onset near the caption time, weighted so closer onsets win ties
+   */
+  private nearestOnset(onsets: { timeMs: number; strength: number }[], timeMs: number): number | null {
+    let best: number | null = null;
+    let bestScore = 0;
+    for (const onset of onsets) {
+      const distance = Math.abs(onset.timeMs - timeMs);
+      if (distance > this.maxShiftMs) continue;
+      const score = onset.strength * (1 - distance / this.maxShiftMs);
+      if (score > bestScore) {
+        bestScore = score;
+        best = onset.timeMs;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Start of the pause closest to the caption end, if one is long enough
+   */
+  private silenceAfter(silent: boolean[], timeMs: number): number | null {
+    const minHops = Math.ceil(this.minSilenceMs / HOP_MS);
+    const from = Math.max(0, Math.floor((timeMs - this.maxShiftMs) / HOP_MS));
+    const to = Math.min(silent.length, Math.ceil((timeMs + this.maxShiftMs) / HOP_MS));
+
+    let best: number | null = null;
+    for (let hop = from; hop < to; hop++) {
+      // Only the first hop of a silent run counts
+      if (!silent[hop] || (hop > 0 && silent[hop - 1])) continue;
+      let length = 0;
+      while (hop + length < silent.length && silent[hop + length] && length < minHops) length++;
+      if (length < minHops) continue;
+
+      const candidate = hop * HOP_MS;
+      if (best === null || Math.abs(candidate - timeMs) < Math.abs(best - timeMs)) {
+        best = candidate;
+      }
+    }
+    return best;
+  }
+}
@@ -0,0 +1,38 @@
+import { EventEmitter } from 'events';
+import { ProjectState, ProjectStatus } from './types.js';
+
+export type ProjectEvent =
+  | { type: 'state'; videoId: string; state: ProjectState }
+  | { type: 'phase'; videoId: string; status: ProjectStatus; progress: number; queuePosition?: number }
+  | { type: 'progress'; videoId: string; progress: number; currentFrame: number; totalFrames: number }
+  | { type: 'frame'; videoId: string; frameNumber: number; totalFrames: number; framePath?: string }
+  | { type: 'transcript'; videoId: string; items: number; languages: string[] }
+  | { type: 'alignment'; videoId: string; adjusted: number; total: number }
+  | { type: 'error'; videoId: string; error: string }
+  | { type: 'completed'; videoId: string; outputPath: string };
+
+/**
+ * In-process pub/sub for project progress, consumed by the SSE endpoint
+ */
+export class ProjectEvents {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open SSE connection
+    this.emitter.setMaxListeners(0);
+  }
+
+  emit(event: ProjectEvent): void {
+    this.emitter.emit(event.videoId, event);
+  }
+
+  /**
+   * Listens to every event for a project; returns an unsubscribe function
+   */
+  subscribe(videoId: string, listener: (event: ProjectEvent) => void): () => void {
+    this.emitter.on(videoId, listener);
+    return () => {
+      this.emitter.off(videoId, listener);
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import { existsSync } from 'fs';
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { ProjectState, ProjectStatus } from './types.js';
+
+// Statuses that mean a background job was still running when the state was saved
+const RUNNING_STATUSES: ProjectStatus[] = ['queued', 'downloading', 'aligning', 'generating', 'encoding'];
+
+/**
+ * Keeps project state in memory and mirrors it to output/{videoId}/config.json
+ * so projects survive server restarts
+ */
+export class ProjectStore {
+  private projects = new Map<string, ProjectState>();
+  private outputDir: string;
+
+  constructor(outputDir: string) {
+    this.outputDir = outputDir;
+  }
+
+  /**
+   * Rehydrates every project found in the output directory
+   */
+  async load(): Promise<number> {
+    if (!existsSync(this.outputDir)) return 0;
+
+    const entries = await readdir(this.outputDir, { withFileTypes: true });
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+
+      const configPath = join(this.outputDir, entry.name, 'config.json');
+      if (!existsSync(configPath)) continue;
+
+      try {
+        const project = JSON.parse(await readFile(configPath, 'utf-8')) as ProjectState;
+        if (!project.videoId || (!project.url && project.source !== 'upload')) {
+          console.warn(`⚠️ Skipping ${configPath}: missing videoId or url`);
+          continue;
+        }
+
+        // Whatever was running died with the previous process
+        if (RUNNING_STATUSES.includes(project.status)) {
+          project.status = 'interrupted';
+          project.resumable = true;
+          project.queuePosition = undefined;
+        }
+
+        this.projects.set(project.videoId, project);
+      } catch (error) {
+        console.warn(`⚠️ Could not read ${configPath}:`, error);
+      }
+    }
+
+    return this.projects.size;
+  }
+
+  get(videoId: string): ProjectState | undefined {
+    return this.projects.get(videoId);
+  }
+
+  has(videoId: string): boolean {
+    return this.projects.has(videoId);
+  }
+
+  list(): ProjectState[] {
+    return Array.from(this.projects.values());
+  }
+
+  isRunning(project: ProjectState): boolean {
+    return RUNNING_STATUSES.includes(project.status);
+  }
+
+  /**
+   * Adds or updates a project and writes it to disk
+   */
+  async save(project: ProjectState): Promise<void> {
+    this.projects.set(project.videoId, project);
+    project.updatedAt = new Date().toISOString();
+
+    const projectDir = join(this.outputDir, project.videoId);
+    if (!existsSync(projectDir)) {
+      await mkdir(projectDir, { recursive: true });
+    }
+    await writeFile(join(projectDir, 'config.json'), JSON.stringify(project, null, 2));
+  }
+
+  /**
+   * Removes a project and all of its files
+   */
+  async delete(videoId: string): Promise<boolean> {
+    // Only known ids are turned into paths, so a crafted id can't escape outputDir
+    if (!this.projects.has(videoId)) return false;
+
+    this.projects.delete(videoId);
+    await rm(join(this.outputDir, videoId), { recursive: true, force: true });
+    return true;
+  }
+}
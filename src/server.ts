@@ -1,47 +1,108 @@
 import express from 'express';
 import cors from 'cors';
 import { createServer } from 'http';
-import { join } from 'path';
-import { existsSync } from 'fs';
-import { mkdir, writeFile, readFile } from 'fs/promises';
+import { basename, extname, join } from 'path';
+import { createWriteStream, existsSync } from 'fs';
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { pipeline } from 'stream/promises';
+import { randomBytes } from 'crypto';
 import { YouTubeExtractor } from './youtube-extractor.js';
-import { VideoGenerator } from './video-generator.js';
-import { VideoConfig, TranscriptItem } from './types.js';
+import { VideoGenerator, frameFileName } from './video-generator.js';
+import { ProjectStore } from './project-store.js';
+import { LyricAligner } from './lyric-aligner.js';
+import { fontRegistry } from './font-registry.js';
+import { BACKGROUND_IMAGE_EXTENSIONS, BACKGROUND_VIDEO_EXTENSIONS, BackgroundAssets } from './background.js';
+import { JobQueue } from './job-queue.js';
+import { ProjectEvent, ProjectEvents } from './project-events.js';
+import { DEFAULT_VIDEO_CONFIG, introDuration, resolveVideoConfig } from './config.js';
+import { getTranscriptParser } from './transcript-parsers.js';
+import { shiftItems } from './transcript-timing.js';
+import { TRANSCRIPT_CONTENT_TYPES, TRANSCRIPT_EXPORT_FORMATS, TranscriptExportFormat, exportTranscript } from './transcript-export.js';
+import { ProjectState, ProjectStatus, SongInfo, Transcript, TranscriptItem } from './types.js';
 
 const app = express();
 const server = createServer(app);
 const outputDir = join(process.cwd(), 'output');
 
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '2mb' })); // lyric files are posted as JSON
 app.use(express.static(join(process.cwd(), 'public')));
 
 // Serve output directory at root to allow /{videoId}/audio.webm and /{videoId}/frames/...
 app.use(express.static(outputDir));
 
 // State management
-interface ProjectState {
-  videoId: string;
-  url: string;
-  status: 'idle' | 'downloading' | 'generating' | 'completed' | 'error';
-  progress: number;
-  currentFrame: number;
-  totalFrames: number;
-  error?: string;
-  config?: VideoConfig;
-  selectedLanguages?: string[];
-}
-
-const projects = new Map<string, ProjectState>();
+const projects = new ProjectStore(outputDir);
 let activeProject: string | null = null;
 
 const extractor = new YouTubeExtractor();
+const events = new ProjectEvents();
+
+// Audio formats accepted for uploaded projects (anything FFmpeg decodes would work)
+const AUDIO_EXTENSIONS = ['.mp3', '.flac', '.wav', '.m4a'];
+
+// Frame events are throttled so SSE clients aren't flooded at 30+ events per second
+const FRAME_EVENT_INTERVAL_MS = 250;
+
+// Renders are CPU-heavy, so only a few run at once and the rest wait their turn
+const maxConcurrentRenders = parseInt(process.env.MAX_CONCURRENT_RENDERS || '1', 10);
+const jobs = new JobQueue(maxConcurrentRenders, (waitingIds) => {
+  waitingIds.forEach((id, index) => {
+    const project = projects.get(id);
+    if (project && project.queuePosition !== index + 1) {
+      project.queuePosition = index + 1;
+      events.emit({ type: 'phase', videoId: id, status: project.status, progress: project.progress, queuePosition: project.queuePosition });
+    }
+  });
+});
 
 // Ensure directories exist
 if (!existsSync(outputDir)) {
   await mkdir(outputDir, { recursive: true });
 }
 
+// Rehydrate projects saved by previous runs
+const restoredCount = await projects.load();
+if (restoredCount > 0) {
+  console.log(`📂 Restored ${restoredCount} project(s) from ${outputDir}`);
+}
+
+/**
+ * Writes project state to disk without letting a failed write break the caller
+ */
+async function persist(project: ProjectState): Promise<void> {
+  try {
+    await projects.save(project);
+  } catch (error) {
+    console.warn(`⚠️ Could not save project ${project.videoId}:`, error);
+  }
+}
+
+/**
+ * Moves a project to a new phase, saves it and notifies event subscribers
+ */
+async function setPhase(project: ProjectState, status: ProjectStatus, progress: number): Promise<void> {
+  project.status = status;
+  project.progress = progress;
+  await persist(project);
+  events.emit({ type: 'phase', videoId: project.videoId, status, progress, queuePosition: project.queuePosition });
+}
+
+/**
+ * Updates progress, emitting an event only when the percentage actually changes
+ */
+function setProgress(project: ProjectState, progress: number): void {
+  if (project.progress === progress) return;
+  project.progress = progress;
+  events.emit({
+    type: 'progress',
+    videoId: project.videoId,
+    progress,
+    currentFrame: project.currentFrame,
+    totalFrames: project.totalFrames
+  });
+}
+
 // API Endpoints
 
 // Initialize project - Get video info and available languages
@@ -56,15 +117,23 @@ app.post('/api/init', async (req, res) => {
     const languages = await extractor.getAvailableLanguages(url);
 
     // Initialize state if not exists
-    if (!projects.has(videoId)) {
-      projects.set(videoId, {
+    const existing = projects.get(videoId);
+    if (!existing) {
+      const project: ProjectState = {
         videoId,
         url,
         status: 'idle',
         progress: 0,
         currentFrame: 0,
-        totalFrames: 0
-      });
+        totalFrames: 0,
+        languages
+      };
+      await fetchMetadata(project);
+      await persist(project);
+    } else {
+      if (languages.length > 0) existing.languages = languages;
+      if (!existing.metadata) await fetchMetadata(existing);
+      await persist(existing);
     }
 
     activeProject = videoId;
@@ -84,23 +153,314 @@ app.post('/api/configure', async (req, res) => {
     if (!project) {
       return res.status(404).json({ error: 'Project not found' });
     }
+    // A queued or running job reads project.config throughout, so it can't change under it
+    if (projects.isRunning(project)) {
+      return res.status(409).json({ error: 'Project is still running' });
+    }
 
+    const previousConfig = project.config;
+    const previousLanguages = project.selectedLanguages;
     project.selectedLanguages = languages;
-    project.config = config || {
-      width: 1920,
-      height: 1080,
-      fps: 30,
-      fontSize: 48,
-      textColor: '#FFFFFF',
-      backgroundColor: '#000000'
-    };
+    project.config = resolveVideoConfig(config);
+
+    // An unedited transcript.json is just a cache of the source; drop it when the tracks it was built from change
+    const transcriptPath = join(outputDir, project.videoId, 'transcript.json');
+    if (!project.transcriptEdited && existsSync(transcriptPath)
+      && (JSON.stringify(previousLanguages) !== JSON.stringify(languages)
+        || JSON.stringify(previousConfig?.languageOffsets) !== JSON.stringify(project.config.languageOffsets)
+        || previousConfig?.mergePolicy !== project.config.mergePolicy)) {
+      await rm(transcriptPath, { force: true });
+    }
+
+    // Saved PNG frames and segment images were drawn with the old settings (size, colors, offset...), so they can't be reused
+    if (previousConfig
+      && JSON.stringify({ ...previousConfig, renderMode: undefined }) !== JSON.stringify({ ...project.config, renderMode: undefined })) {
+      await rm(join(outputDir, project.videoId, 'frames'), { recursive: true, force: true });
+      await rm(join(outputDir, project.videoId, 'segments'), { recursive: true, force: true });
+    }
 
     // Save config to disk
+    await projects.save(project);
+
+    res.json({ success: true, state: project });
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Attach a lyric file (SRT, VTT, LRC) to use instead of the YouTube captions
+app.post('/api/transcript', async (req, res) => {
+  try {
+    const { videoId, filename, content, format } = req.body;
+    const project = projects.get(videoId);
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    if (typeof filename !== 'string' || typeof content !== 'string') {
+      return res.status(400).json({ error: 'filename and content are required' });
+    }
+    if (projects.isRunning(project)) {
+      return res.status(409).json({ error: 'Project is still running' });
+    }
+
+    let parser;
+    try {
+      parser = getTranscriptParser(filename, content, format);
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown format' });
+    }
+
+    const items = parser.parse(content);
+    if (items.length === 0) {
+      return res.status(400).json({ error: `No timed lines found in ${filename}` });
+    }
+
+    const projectDir = join(outputDir, videoId);
+    if (!existsSync(projectDir)) await mkdir(projectDir, { recursive: true });
+    const transcriptPath = join(projectDir, `lyrics.${parser.format}`);
+    await writeFile(transcriptPath, content);
+
+    project.transcriptSource = { type: 'file', filename: basename(filename), format: parser.format, path: transcriptPath };
+    project.transcriptEdited = false;
+    await persist(project);
+
+    res.json({ success: true, items: items.length, format: parser.format, state: project });
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Export the transcript used for the last render as subtitles or lyrics, timed as in the video
+app.get('/api/transcript', async (req, res) => {
+  try {
+    const videoId = req.query.videoId as string || activeProject;
+    const project = videoId ? projects.get(videoId) : undefined;
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const format = (req.query.format as string || 'srt').toLowerCase() as TranscriptExportFormat;
+    if (!TRANSCRIPT_EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `Unsupported format. Use one of: ${TRANSCRIPT_EXPORT_FORMATS.join(', ')}` });
+    }
+
+    const transcriptPath = join(outputDir, project.videoId, 'transcript.json');
+    if (!existsSync(transcriptPath)) {
+      return res.status(409).json({ error: 'Transcript is not available until generation has loaded it' });
+    }
+    const saved = JSON.parse(await readFile(transcriptPath, 'utf-8')) as Transcript;
+    // transcript.json keeps caption times; the global offset and the intro card are only applied when rendering
+    const config = resolveVideoConfig(project.config);
+    const transcript: Transcript = {
+      ...saved,
+      items: shiftItems(shiftItems(saved.items, config.offsetMs || 0), introDuration(config))
+    };
+
+    // Without a language every track is stacked into bilingual cues
+    const language = req.query.language as string | undefined;
+    if (language && !transcript.languages.includes(language)) {
+      return res.status(400).json({ error: `Unknown language ${language}. Available: ${transcript.languages.join(', ')}` });
+    }
+
+    const filename = `${project.videoId}${language ? `.${language}` : ''}.${format}`;
+    res.set('Content-Type', TRANSCRIPT_CONTENT_TYPES[format]);
+    res.attachment(filename);
+    res.send(exportTranscript(transcript, format, { language }));
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Detach the lyric file and go back to the YouTube captions
+app.delete('/api/transcript', async (req, res) => {
+  const videoId = req.query.videoId as string;
+  const project = projects.get(videoId);
+
+  if (!project) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  if (projects.isRunning(project)) {
+    return res.status(409).json({ error: 'Project is still running' });
+  }
+
+  project.transcriptSource = project.source === 'upload' ? undefined : { type: 'youtube' };
+  project.transcriptEdited = false;
+  await persist(project);
+
+  res.json({ success: true, state: project });
+});
+
+// Create a project for an unreleased track: audio and lyrics are uploaded instead of downloaded
+app.post('/api/projects', async (req, res) => {
+  try {
+    const { title, artist } = req.body || {};
+    const videoId = `local-${randomBytes(6).toString('hex')}`;
+
+    await persist({
+      videoId,
+      url: '',
+      source: 'upload',
+      title: typeof title === 'string' && title.trim() ? title.trim() : undefined,
+      artist: typeof artist === 'string' && artist.trim() ? artist.trim() : undefined,
+      status: 'idle',
+      progress: 0,
+      currentFrame: 0,
+      totalFrames: 0,
+      languages: []
+    });
+
+    activeProject = videoId;
+    res.status(201).json({ videoId, state: projects.get(videoId) });
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Fonts that can be used as fontFamily in the config or in languageStyles
+app.get('/api/fonts', (req, res) => {
+  fontRegistry.scan();
+  res.json({ families: fontRegistry.families(), fonts: fontRegistry.list() });
+});
+
+// Upload a TTF/OTF font into fonts/; the raw file is the request body
+app.put('/api/fonts', express.raw({ type: '*/*', limit: '20mb' }), async (req, res) => {
+  try {
+    const filename = basename(String(req.query.filename || ''));
+    if (!filename || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: 'filename and a font file body are required' });
+    }
+
+    const font = await fontRegistry.add(filename, req.body);
+    console.log(`🔤 Registered font ${font.family} from ${filename}`);
+    res.json({ success: true, font, families: fontRegistry.families() });
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Upload the audio of an uploaded project; the raw file is the request body
+app.put('/api/projects/:videoId/audio', async (req, res) => {
+  try {
+    const { videoId } = req.params;
+    const project = projects.get(videoId);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    if (project.source !== 'upload') {
+      return res.status(400).json({ error: 'Only uploaded projects take an audio file' });
+    }
+    if (projects.isRunning(project)) {
+      return res.status(409).json({ error: 'Project is still running' });
+    }
+
+    const filename = basename(String(req.query.filename || ''));
+    const extension = extname(filename).toLowerCase();
+    if (!AUDIO_EXTENSIONS.includes(extension)) {
+      return res.status(400).json({ error: `Unsupported audio file. Use one of: ${AUDIO_EXTENSIONS.join(', ')}` });
+    }
+
+    // Write to a temporary file so a failed upload doesn't clobber the previous audio
+    const projectDir = join(outputDir, videoId);
+    if (!existsSync(projectDir)) await mkdir(projectDir, { recursive: true });
+    const audioFile = `audio${extension}`;
+    const uploadPath = join(projectDir, `${audioFile}.upload`);
+    try {
+      await pipeline(req, createWriteStream(uploadPath));
+    } catch (error) {
+      await rm(uploadPath, { force: true });
+      throw error;
+    }
+
+    if (project.audioFile && project.audioFile !== audioFile) {
+      await rm(join(projectDir, project.audioFile), { force: true });
+    }
+    await rename(uploadPath, join(projectDir, audioFile));
+
+    project.audioFile = audioFile;
+    if (!project.title) {
+      project.title = basename(filename, extname(filename));
+    }
+    await persist(project);
+
+    res.json({ success: true, state: project });
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Upload a background image or looping video; the raw file is the request body
+app.put('/api/projects/:videoId/background', async (req, res) => {
+  try {
+    const { videoId } = req.params;
+    const project = projects.get(videoId);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    if (projects.isRunning(project)) {
+      return res.status(409).json({ error: 'Project is still running' });
+    }
+
+    const filename = basename(String(req.query.filename || ''));
+    const extension = extname(filename).toLowerCase();
+    const isVideo = BACKGROUND_VIDEO_EXTENSIONS.includes(extension);
+    if (!isVideo && !BACKGROUND_IMAGE_EXTENSIONS.includes(extension)) {
+      const supported = [...BACKGROUND_IMAGE_EXTENSIONS, ...BACKGROUND_VIDEO_EXTENSIONS].join(', ');
+      return res.status(400).json({ error: `Unsupported background file. Use one of: ${supported}` });
+    }
+
+    const projectDir = join(outputDir, videoId);
+    if (!existsSync(projectDir)) await mkdir(projectDir, { recursive: true });
+    const backgroundFile = `background${extension}`;
+    const uploadPath = join(projectDir, `${backgroundFile}.upload`);
+    try {
+      await pipeline(req, createWriteStream(uploadPath));
+    } catch (error) {
+      await rm(uploadPath, { force: true });
+      throw error;
+    }
+
+    if (project.backgroundFile && project.backgroundFile !== backgroundFile) {
+      await rm(join(projectDir, project.backgroundFile), { force: true });
+    }
+    await rename(uploadPath, join(projectDir, backgroundFile));
+
+    // Switch the project to the uploaded file, keeping its blur/pixelate/dim settings
+    const config = resolveVideoConfig(project.config);
+    project.config = { ...config, background: { ...config.background, type: isVideo ? 'video' : 'image' } };
+    project.backgroundFile = backgroundFile;
+    // Stored frames and segment images have the old background painted in
+    await rm(join(projectDir, 'frames'), { recursive: true, force: true });
+    await rm(join(projectDir, 'segments'), { recursive: true, force: true });
+    await persist(project);
+
+    res.json({ success: true, state: project });
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Remove the uploaded background and go back to the default one
+app.delete('/api/projects/:videoId/background', async (req, res) => {
+  try {
+    const { videoId } = req.params;
+    const project = projects.get(videoId);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    if (projects.isRunning(project)) {
+      return res.status(409).json({ error: 'Project is still running' });
+    }
+
     const projectDir = join(outputDir, videoId);
-    if (!existsSync(projectDir)) {
-      await mkdir(projectDir, { recursive: true });
+    if (project.backgroundFile) {
+      await rm(join(projectDir, project.backgroundFile), { force: true });
     }
-    await writeFile(join(projectDir, 'config.json'), JSON.stringify(project, null, 2));
+    project.backgroundFile = undefined;
+    project.config = { ...resolveVideoConfig(project.config), background: DEFAULT_VIDEO_CONFIG.background };
+    await rm(join(projectDir, 'frames'), { recursive: true, force: true });
+    await rm(join(projectDir, 'segments'), { recursive: true, force: true });
+    await persist(project);
 
     res.json({ success: true, state: project });
   } catch (error) {
@@ -108,6 +468,121 @@ app.post('/api/configure', async (req, res) => {
   }
 });
 
+// Fetch the transcript for the timing editor, loading it from its source on first use
+app.get('/api/projects/:videoId/transcript', async (req, res) => {
+  try {
+    const project = projects.get(req.params.videoId);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    res.json(await readTranscript(project));
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Per-cue timing changes made by the last auto-align run
+app.get('/api/projects/:videoId/alignment', async (req, res) => {
+  const project = projects.get(req.params.videoId);
+  if (!project) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+
+  const alignmentPath = join(outputDir, project.videoId, 'alignment.json');
+  if (!existsSync(alignmentPath)) {
+    return res.status(404).json({ error: 'This project has not been auto-aligned' });
+  }
+  res.json(JSON.parse(await readFile(alignmentPath, 'utf-8')));
+});
+
+// Render the single frame shown at ?time=<seconds> into the song, to check sync before a full render.
+// ?offsetMs= previews a global offset without saving it.
+app.get('/api/preview/frame', async (req, res) => {
+  try {
+    const videoId = req.query.videoId as string || activeProject;
+    const project = videoId ? projects.get(videoId) : undefined;
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const time = parseFloat(req.query.time as string);
+    if (!Number.isFinite(time) || time < 0) {
+      return res.status(400).json({ error: 'time must be a number of seconds >= 0' });
+    }
+
+    const config = resolveVideoConfig(project.config);
+    if (req.query.offsetMs !== undefined) {
+      const offsetMs = parseInt(req.query.offsetMs as string, 10);
+      if (isNaN(offsetMs)) {
+        return res.status(400).json({ error: 'offsetMs must be an integer' });
+      }
+      config.offsetMs = offsetMs;
+    }
+
+    const transcript = await readTranscript(project);
+    const generator = new VideoGenerator(config);
+    await generator.prepareBackground(await backgroundAssets(project));
+    generator.setSongInfo(await songInfo(project));
+    // time is the audio playhead; an intro card pushes the song back in the video
+    res.type('png').send(generator.renderFrameAt(transcript.items, time * 1000 + introDuration(config)));
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Save an edited transcript. PNG-sequence renders then redraw only the frames whose
+// content changed, and segment renders only the states they have no image for yet;
+// stream renders draw every frame again
+app.put('/api/projects/:videoId/transcript', async (req, res) => {
+  try {
+    const project = projects.get(req.params.videoId);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    if (projects.isRunning(project)) {
+      return res.status(409).json({ error: 'Project is still running' });
+    }
+
+    let transcript: Transcript;
+    try {
+      transcript = validateTranscript(req.body);
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid transcript' });
+    }
+
+    const projectDir = join(outputDir, project.videoId);
+    const transcriptPath = join(projectDir, 'transcript.json');
+    const framesDir = join(projectDir, 'frames');
+
+    // PNG-sequence renders skip frames that exist, so stale ones must go
+    let changedFrames = 0;
+    if (existsSync(transcriptPath) && existsSync(framesDir)) {
+      const previous = JSON.parse(await readFile(transcriptPath, 'utf-8')) as Transcript;
+      const config = project.config || DEFAULT_VIDEO_CONFIG;
+      const generator = new VideoGenerator(config);
+      const changed = generator.changedFrames(previous.items, transcript.items, config.fps);
+      for (const frameNumber of changed) {
+        await rm(join(framesDir, frameFileName(frameNumber)), { force: true });
+      }
+      changedFrames = changed.length;
+    }
+
+    if (!existsSync(projectDir)) await mkdir(projectDir, { recursive: true });
+    await writeFile(transcriptPath, JSON.stringify(transcript, null, 2));
+    await rm(join(projectDir, 'lyrics-video.mp4'), { force: true });
+
+    project.transcriptEdited = true;
+    project.outputPath = undefined;
+    project.error = undefined;
+    await setPhase(project, 'idle', 0);
+
+    res.json({ success: true, changedFrames, state: project });
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
 // Start/Resume generation
 app.post('/api/start', async (req, res) => {
   const { videoId } = req.body;
@@ -117,18 +592,40 @@ app.post('/api/start', async (req, res) => {
     return res.status(400).json({ error: 'Project not configured' });
   }
 
-  if (project.status === 'generating' || project.status === 'downloading') {
+  if (projects.isRunning(project) || jobs.has(videoId)) {
     return res.json({ message: 'Already running', state: project });
   }
 
-  // Start background process
-  generateVideo(project).catch(err => {
-    console.error('Generation error:', err);
-    project.status = 'error';
-    project.error = err.message;
-  });
+  // Queue background process
+  project.error = undefined;
+  await setPhase(project, 'queued', 0);
+  jobs.enqueue(videoId, (signal) => generateVideo(project, signal));
+
+  res.json({ success: true, message: project.status === 'queued' ? 'Queued' : 'Started', state: project });
+});
+
+// Cancel a queued or running generation
+app.post('/api/cancel', async (req, res) => {
+  const { videoId } = req.body;
+  const project = projects.get(videoId);
+
+  if (!project) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
 
-  res.json({ success: true, message: 'Started', state: project });
+  const wasQueued = project.status === 'queued';
+  if (!jobs.cancel(videoId)) {
+    return res.status(409).json({ error: 'Project is not queued or running' });
+  }
+
+  // Running jobs mark themselves cancelled once their child processes exit
+  if (wasQueued) {
+    project.queuePosition = undefined;
+    project.resumable = true;
+    await setPhase(project, 'cancelled', project.progress);
+  }
+
+  res.json({ success: true, state: project });
 });
 
 // Get status
@@ -140,35 +637,265 @@ app.get('/api/status', (req, res) => {
   res.json(projects.get(videoId));
 });
 
-// Get latest frame for preview
-app.get('/api/preview/latest', (req, res) => {
+// List all known projects
+app.get('/api/projects', (req, res) => {
+  res.json({ projects: projects.list() });
+});
+
+// Delete a project and purge its files
+app.delete('/api/projects/:videoId', async (req, res) => {
+  try {
+    const { videoId } = req.params;
+    const project = projects.get(videoId);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    if (projects.isRunning(project)) {
+      return res.status(409).json({ error: 'Project is still running' });
+    }
+
+    await projects.delete(videoId);
+    if (activeProject === videoId) {
+      activeProject = null;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Server-Sent Events stream of progress updates for a project
+app.get('/api/events', (req, res) => {
   const videoId = req.query.videoId as string || activeProject;
-  if (!videoId || !projects.has(videoId)) {
+  const project = videoId ? projects.get(videoId) : undefined;
+  if (!project) {
     return res.status(404).json({ error: 'Project not found' });
   }
-  
-  const project = projects.get(videoId);
-  res.json({ 
-    frame: project?.currentFrame || 0,
-    total: project?.totalFrames || 0
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no' // keep reverse proxies from buffering the stream
+  });
+
+  const send = (event: ProjectEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  // Start every stream with a full snapshot so clients don't need /api/status
+  send({ type: 'state', videoId: project.videoId, state: project });
+  const unsubscribe = events.subscribe(project.videoId, send);
+
+  // Comment lines keep idle connections from being closed by proxies
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
   });
 });
 
+// Download the finished video (express handles Range requests for seeking)
+app.get('/api/download', (req, res) => {
+  const videoId = req.query.videoId as string || activeProject;
+  const project = videoId ? projects.get(videoId) : undefined;
+  if (!project) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+
+  const videoPath = project.outputPath || join(outputDir, project.videoId, 'lyrics-video.mp4');
+  if (project.status !== 'completed' || !existsSync(videoPath)) {
+    return res.status(409).json({ error: 'Video is not ready yet' });
+  }
+
+  res.download(videoPath, `${project.videoId}.mp4`, (err) => {
+    if (err && !res.headersSent) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+});
+
+/**
+ * Checks an edited transcript from the client and returns it sorted by start time
+ */
+function validateTranscript(body: unknown): Transcript {
+  const { languages, items } = (body || {}) as Partial<Transcript>;
+  if (!Array.isArray(languages) || languages.length === 0 || !languages.every(lang => typeof lang === 'string')) {
+    throw new Error('languages must be a non-empty array of language codes');
+  }
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new Error('items must be a non-empty array');
+  }
+
+  const cleaned = items.map((item, index): TranscriptItem => {
+    const valid = item
+      && Array.isArray(item.text)
+      && item.text.length === languages.length
+      && item.text.every(text => typeof text === 'string')
+      && Number.isFinite(item.offset) && item.offset >= 0
+      && Number.isFinite(item.duration) && item.duration > 0;
+    if (!valid) {
+      throw new Error(`Item ${index + 1} needs one text per language, an offset >= 0 and a duration > 0`);
+    }
+    return {
+      text: item.text,
+      offset: Math.round(item.offset),
+      duration: Math.round(item.duration),
+      ...(Array.isArray(item.words) ? { words: item.words } : {})
+    };
+  });
+
+  cleaned.sort((a, b) => a.offset - b.offset);
+  return { languages, items: cleaned };
+}
+
+/**
+ * Returns the saved transcript.json, loading and saving it from the project's source on first use
+ */
+async function readTranscript(project: ProjectState): Promise<Transcript> {
+  const transcriptPath = join(outputDir, project.videoId, 'transcript.json');
+  if (existsSync(transcriptPath)) {
+    return JSON.parse(await readFile(transcriptPath, 'utf-8')) as Transcript;
+  }
+
+  if (project.transcriptSource?.type !== 'file' && !project.selectedLanguages?.length) {
+    throw new Error('Select languages or attach a lyric file first');
+  }
+  const transcript = await loadTranscript(project);
+  if (transcript.items.length === 0) {
+    throw new Error('No transcript available for this video');
+  }
+
+  const projectDir = join(outputDir, project.videoId);
+  if (!existsSync(projectDir)) await mkdir(projectDir, { recursive: true });
+  await writeFile(transcriptPath, JSON.stringify(transcript, null, 2));
+  return transcript;
+}
+
+/**
+ * Reads the edited transcript or the attached lyric file, or downloads the selected YouTube captions
+ */
+async function loadTranscript(project: ProjectState, signal?: AbortSignal): Promise<Transcript> {
+  const editedPath = join(outputDir, project.videoId, 'transcript.json');
+  if (project.transcriptEdited && existsSync(editedPath)) {
+    console.log('📝 Using edited transcript');
+    return JSON.parse(await readFile(editedPath, 'utf-8')) as Transcript;
+  }
+
+  const source = project.transcriptSource;
+  if (source?.type === 'file') {
+    const content = await readFile(source.path, 'utf-8');
+    console.log(`📄 Using lyric file ${source.filename}`);
+    // Lyric files are a single track in an unknown language
+    return { languages: ['und'], items: getTranscriptParser(source.filename, content, source.format).parse(content) };
+  }
+
+  const autoLanguages = (project.languages || []).filter(lang => lang.isAuto).map(lang => lang.code);
+  return extractor.downloadTranscript(project.url, project.selectedLanguages!, {
+    signal,
+    autoLanguages,
+    languageOffsets: project.config?.languageOffsets,
+    mergePolicy: project.config?.mergePolicy
+  });
+}
+
+/**
+ * Files the configured background can use: the uploaded background file and, for
+ * thumbnail backgrounds, the YouTube thumbnail (fetched once, and optional)
+ */
+async function backgroundAssets(project: ProjectState, signal?: AbortSignal): Promise<BackgroundAssets> {
+  const projectDir = join(outputDir, project.videoId);
+  const assets: BackgroundAssets = {};
+
+  if (project.backgroundFile) {
+    const path = join(projectDir, project.backgroundFile);
+    if (BACKGROUND_VIDEO_EXTENSIONS.includes(extname(path).toLowerCase())) assets.video = path;
+    else assets.image = path;
+  }
+
+  if (project.config?.background?.type === 'thumbnail' && project.source !== 'upload') {
+    try {
+      if (!existsSync(projectDir)) await mkdir(projectDir, { recursive: true });
+      assets.thumbnail = await extractor.downloadThumbnail(project.url, projectDir, { signal });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn('⚠️ Could not download the thumbnail:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  return assets;
+}
+
+/**
+ * Fetches a YouTube project's metadata and fills in the title and artist if they
+ * aren't set yet; music uploads name the track and artist, others fall back to
+ * the video title and channel. Returns false when yt-dlp fails.
+ */
+async function fetchMetadata(project: ProjectState, signal?: AbortSignal): Promise<boolean> {
+  try {
+    const metadata = await extractor.getMetadata(project.url, { signal });
+    project.metadata = metadata;
+    project.title = project.title || metadata.track || metadata.title;
+    project.artist = project.artist || metadata.artist || metadata.uploader;
+    return true;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn('⚠️ Could not fetch the video metadata:', error instanceof Error ? error.message : error);
+    return false;
+  }
+}
+
+/**
+ * Title, artist and length for the title and credits cards. Projects created
+ * before metadata was stored fetch it here, once.
+ */
+async function songInfo(project: ProjectState, signal?: AbortSignal): Promise<SongInfo | undefined> {
+  const config = project.config;
+  if (!config?.gaps?.titleCard && !config?.introCard && !config?.outroCard) return undefined;
+
+  if (!project.metadata && project.source !== 'upload' && await fetchMetadata(project, signal)) {
+    await persist(project);
+  }
+
+  return project.title
+    ? { title: project.title, artist: project.artist, durationMs: project.metadata?.durationMs }
+    : undefined;
+}
+
 // Background generation task
-async function generateVideo(project: ProjectState) {
+async function generateVideo(project: ProjectState, signal: AbortSignal) {
   const projectDir = join(outputDir, project.videoId);
   const framesDir = join(projectDir, 'frames');
-  const audioPath = join(projectDir, 'audio.webm'); // Changed to webm
+  const segmentsDir = join(projectDir, 'segments');
+  const audioPath = join(projectDir, project.audioFile || 'audio.webm'); // Changed to webm
+  const videoPath = join(projectDir, 'lyrics-video.mp4');
+  
+  const renderMode = project.config!.renderMode || 'stream';
   
-  if (!existsSync(projectDir)) await mkdir(projectDir, { recursive: true });
-  if (!existsSync(framesDir)) await mkdir(framesDir, { recursive: true });
-
   try {
+    if (project.source === 'upload') {
+      if (!project.audioFile || !existsSync(audioPath)) {
+        throw new Error('Upload an audio file before generating the video.');
+      }
+      if (project.transcriptSource?.type !== 'file') {
+        throw new Error('Upload or paste a lyric file before generating the video.');
+      }
+    }
+
+    if (!existsSync(projectDir)) await mkdir(projectDir, { recursive: true });
+    if (renderMode === 'frames' && !existsSync(framesDir)) await mkdir(framesDir, { recursive: true });
+    if (renderMode === 'segments' && !existsSync(segmentsDir)) await mkdir(segmentsDir, { recursive: true });
+
     // 1. Download Transcript
-    project.status = 'downloading';
-    project.progress = 10;
+    project.queuePosition = undefined;
+    project.error = undefined;
+    project.resumable = false;
+    await setPhase(project, 'downloading', 10);
     
-    const transcript = await extractor.downloadTranscript(project.url, project.selectedLanguages!);
+    const { languages, items: loadedItems } = await loadTranscript(project, signal);
+    let transcript = loadedItems;
     
     // Validate transcript
     if (!transcript || transcript.length === 0) {
@@ -176,36 +903,136 @@ async function generateVideo(project: ProjectState) {
     }
     
     console.log(`✅ Got ${transcript.length} transcript items`);
+
+    events.emit({
+      type: 'transcript',
+      videoId: project.videoId,
+      items: transcript.length,
+      languages
+    });
     
-    // 2. Download Audio
-    project.progress = 30;
-    await extractor.downloadAudio(project.url, audioPath);
+    // 2. Download Audio (uploaded projects already have theirs)
+    setProgress(project, 30);
+    if (project.source !== 'upload') {
+      await extractor.downloadAudio(project.url, audioPath, { signal });
+    }
+
+    // 3. Snap cue timing to the audio; hand-edited timings are left alone
+    if (project.config!.autoAlign && !project.transcriptEdited) {
+      await setPhase(project, 'aligning', 35);
+      const { items, adjustments } = await new LyricAligner({ offsetMs: project.config!.offsetMs }).align(transcript, audioPath, signal);
+      transcript = items;
+      await writeFile(join(projectDir, 'alignment.json'), JSON.stringify({ adjustments }, null, 2));
+      console.log(`🎯 Aligned ${adjustments.length} of ${transcript.length} cues`);
+      events.emit({ type: 'alignment', videoId: project.videoId, adjusted: adjustments.length, total: transcript.length });
+    }
+
+    // Kept next to the video so it can be exported as subtitles or edited later
+    await writeFile(join(projectDir, 'transcript.json'), JSON.stringify({ languages, items: transcript }, null, 2));
     
-    // 3. Generate Frames
-    project.status = 'generating';
-    project.progress = 40;
+    // 4. Generate Frames
+    await setPhase(project, 'generating', 40);
     
     const generator = new VideoGenerator(project.config!);
-    
-    await generator.generateFrames(
-      transcript,
-      framesDir,
-      project.config!.fps,
-      (frameNum, total, path) => {
-        project.currentFrame = frameNum;
-        project.totalFrames = total;
-        project.progress = 40 + Math.floor((frameNum / total) * 50);
+    await generator.prepareBackground(await backgroundAssets(project, signal));
+    await generator.prepareVisualizer(audioPath, signal);
+    generator.setSongInfo(await songInfo(project, signal));
+
+    let lastFrameEvent = 0;
+    const onFrame = (frameNum: number, total: number, framePath?: string) => {
+      project.currentFrame = frameNum;
+      project.totalFrames = total;
+
+      const now = Date.now();
+      if (now - lastFrameEvent >= FRAME_EVENT_INTERVAL_MS || frameNum === total) {
+        lastFrameEvent = now;
+        events.emit({ type: 'frame', videoId: project.videoId, frameNumber: frameNum, totalFrames: total, framePath });
       }
-    );
+    };
+    
+    if (renderMode === 'stream') {
+      // Frames are encoded as they're rendered, so there's no separate encoding phase
+      await generator.renderVideo(
+        transcript,
+        audioPath,
+        videoPath,
+        project.config!.fps,
+        (frameNum, total) => {
+          onFrame(frameNum, total);
+          setProgress(project, 40 + Math.floor((frameNum / total) * 59));
+        },
+        signal
+      );
+    } else if (renderMode === 'segments') {
+      const { listPath, totalFrames } = await generator.generateSegments(
+        transcript,
+        segmentsDir,
+        project.config!.fps,
+        (segmentNum, total) => {
+          setProgress(project, 40 + Math.floor((segmentNum / total) * 20));
+        },
+        signal
+      );
+      project.totalFrames = totalFrames;
+
+      // 5. Encode the stills at their exact durations
+      await setPhase(project, 'encoding', 60);
 
-    // 4. Create Video (Optional, can be separate step)
-    // For now, we just mark as completed when frames are done
-    project.status = 'completed';
-    project.progress = 100;
+      await generator.createVideoFromSegments(
+        listPath,
+        audioPath,
+        videoPath,
+        project.config!.fps,
+        totalFrames,
+        (percent) => {
+          project.currentFrame = Math.floor((percent / 100) * totalFrames);
+          setProgress(project, 60 + Math.floor((percent / 100) * 39));
+        },
+        signal
+      );
+    } else {
+      const { totalFrames } = await generator.generateFrames(
+        transcript,
+        framesDir,
+        project.config!.fps,
+        (frameNum, total, path) => {
+          onFrame(frameNum, total, `/${project.videoId}/frames/${basename(path)}`);
+          setProgress(project, 40 + Math.floor((frameNum / total) * 40));
+        },
+        signal
+      );
+
+      // 5. Encode frames and audio into the final MP4
+      await setPhase(project, 'encoding', 80);
+
+      await generator.createVideo(
+        framesDir,
+        audioPath,
+        videoPath,
+        project.config!.fps,
+        totalFrames,
+        (percent) => {
+          setProgress(project, 80 + Math.floor((percent / 100) * 19));
+        },
+        signal
+      );
+    }
+
+    project.outputPath = videoPath;
+    await setPhase(project, 'completed', 100);
+    events.emit({ type: 'completed', videoId: project.videoId, outputPath: `/api/download?videoId=${project.videoId}` });
 
   } catch (error) {
-    project.status = 'error';
+    if (signal.aborted) {
+      console.log(`🛑 Cancelled ${project.videoId}`);
+      project.resumable = true;
+      await setPhase(project, 'cancelled', project.progress);
+      return;
+    }
+
     project.error = error instanceof Error ? error.message : 'Unknown error';
+    await setPhase(project, 'error', project.progress);
+    events.emit({ type: 'error', videoId: project.videoId, error: project.error });
     throw error;
   }
 }
@@ -0,0 +1,104 @@
+/**
+ * Line breaking for lyric text, measured in pixels rather than characters.
+ * Kept free of canvas so the same rules apply to every renderer.
+ */
+
+export type MeasureText = (text: string) => number;
+
+export interface LayoutToken {
+  text: string;
+  glue: string; // separator drawn before the token unless it starts a line
+  wordIndex: number; // which source word the token came from, for karaoke
+}
+
+export interface LayoutLine {
+  tokens: LayoutToken[];
+  text: string;
+}
+
+// Scripts written without spaces, where a line may break between any two characters:
+// CJK radicals and punctuation, kana, Bopomofo, Han, compatibility ideographs and fullwidth forms
+const CJK_CHAR = /[\u2e80-\u2fdf\u3000-\u303f\u3040-\u30ff\u3100-\u312f\u3190-\u31ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uffef]/;
+
+// Punctuation that must not start a line (kinsoku); it sticks to the character before it
+const NO_LINE_START = /^[\u3001\u3002\uff0c\uff0e\u30fb\uff1a\uff1b\uff1f\uff01\uff09\uff3d\uff5d\u3015\u3009\u300b\u300d\u300f\u3011\u3019\u3017\u30fd\u30fe\u309d\u309e\u30fc\uff5e\u2026\u2025,.!?:;)\]}]/;
+
+/**
+ * Turns words into breakable tokens: whole words for spaced scripts,
+ * single characters for CJK runs
+ */
+export function tokenize(words: string[]): LayoutToken[] {
+  const tokens: LayoutToken[] = [];
+
+  words.forEach((word, wordIndex) => {
+    let first = true;
+    let latinRun = '';
+    const push = (text: string) => {
+      const previous = tokens[tokens.length - 1];
+      if (!first && previous && NO_LINE_START.test(text)) {
+        previous.text += text;
+        return;
+      }
+      tokens.push({ text, glue: first ? ' ' : '', wordIndex });
+      first = false;
+    };
+
+    for (const char of word) {
+      if (CJK_CHAR.test(char)) {
+        if (latinRun) {
+          push(latinRun);
+          latinRun = '';
+        }
+        push(char);
+      } else {
+        latinRun += char;
+      }
+    }
+    if (latinRun) push(latinRun);
+  });
+
+  return tokens;
+}
+
+export function lineText(tokens: LayoutToken[]): string {
+  return tokens.map((token, index) => (index === 0 ? '' : token.glue) + token.text).join('');
+}
+
+/**
+ * Splits a token that is wider than a whole line into character chunks that fit
+ */
+function splitOversized(token: LayoutToken, maxWidth: number, measure: MeasureText): LayoutToken[] {
+  const chunks: LayoutToken[] = [];
+  let current = '';
+  for (const char of token.text) {
+    if (current && measure(current + char) > maxWidth) {
+      chunks.push({ text: current, glue: chunks.length === 0 ? token.glue : '', wordIndex: token.wordIndex });
+      current = '';
+    }
+    current += char;
+  }
+  if (current) chunks.push({ text: current, glue: chunks.length === 0 ? token.glue : '', wordIndex: token.wordIndex });
+  return chunks;
+}
+
+/**
+ * Greedily fills lines up to maxWidth pixels
+ */
+export function wrapTokens(tokens: LayoutToken[], maxWidth: number, measure: MeasureText): LayoutLine[] {
+  const lines: LayoutLine[] = [];
+  let current: LayoutToken[] = [];
+
+  for (const original of tokens) {
+    const pieces = measure(original.text) > maxWidth ? splitOversized(original, maxWidth, measure) : [original];
+    for (const token of pieces) {
+      if (current.length > 0 && measure(lineText([...current, token])) > maxWidth) {
+        lines.push({ tokens: current, text: lineText(current) });
+        current = [];
+      }
+      current.push(token);
+    }
+  }
+  if (current.length > 0) lines.push({ tokens: current, text: lineText(current) });
+
+  return lines;
+}
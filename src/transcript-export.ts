@@ -0,0 +1,147 @@
+import { Transcript, TranscriptItem, TranscriptWord } from './types.js';
+
+export type TranscriptExportFormat = 'srt' | 'vtt' | 'lrc' | 'json';
+
+export const TRANSCRIPT_EXPORT_FORMATS: TranscriptExportFormat[] = ['srt', 'vtt', 'lrc', 'json'];
+
+export const TRANSCRIPT_CONTENT_TYPES: Record<TranscriptExportFormat, string> = {
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+  lrc: 'text/plain; charset=utf-8',
+  json: 'application/json; charset=utf-8'
+};
+
+export interface TranscriptExportOptions {
+  language?: string; // export only this track; otherwise every language goes into combined cues
+}
+
+// One exported cue: the lines shown together, plus word timing when a single track is exported
+interface Cue {
+  start: number;
+  end: number;
+  lines: string[];
+  words?: TranscriptWord[];
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+function formatClock(ms: number, fractionSeparator: string): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${fractionSeparator}${pad(total % 1000, 3)}`;
+}
+
+// LRC uses [mm:ss.xx] with hundredths; minutes keep counting past an hour
+function formatLrcTime(ms: number): string {
+  const hundredths = Math.max(0, Math.round(ms / 10));
+  const minutes = Math.floor(hundredths / 6000);
+  const seconds = Math.floor((hundredths % 6000) / 100);
+  return `${pad(minutes)}:${pad(seconds)}.${pad(hundredths % 100)}`;
+}
+
+/**
+ * Narrows the merged transcript to one track, or keeps every language as combined cues
+ */
+function selectCues(transcript: Transcript, options: TranscriptExportOptions): Cue[] {
+  if (options.language === undefined) {
+    return transcript.items
+      .map(item => ({ start: item.offset, end: item.offset + item.duration, lines: item.text.filter(Boolean) }))
+      .filter(cue => cue.lines.length > 0);
+  }
+
+  const index = transcript.languages.indexOf(options.language);
+  if (index === -1) {
+    throw new Error(`Language ${options.language} is not in this transcript (available: ${transcript.languages.join(', ')})`);
+  }
+
+  const cues: Cue[] = [];
+  for (const item of transcript.items) {
+    const text = item.text[index];
+    if (!text) continue;
+    const words = item.words?.[index];
+    cues.push({
+      start: item.offset,
+      end: item.offset + item.duration,
+      lines: [text],
+      ...(words && words.length > 0 ? { words } : {})
+    });
+  }
+  return cues;
+}
+
+function toSrt(cues: Cue[]): string {
+  return cues
+    .map((cue, index) => `${index + 1}\n${formatClock(cue.start, ',')} --> ${formatClock(cue.end, ',')}\n${cue.lines.join('\n')}\n`)
+    .join('\n');
+}
+
+function toVtt(cues: Cue[]): string {
+  const blocks = cues.map(cue => {
+    // Word timing is written back the way YouTube auto captions carry it: `word<00:00:01.200><c> next</c>`
+    const text = cue.words
+      ? cue.words
+          .map((word, index) => (index === 0 ? word.text : `<${formatClock(word.offset, '.')}><c> ${word.text}</c>`))
+          .join('')
+      : cue.lines.join('\n');
+    return `${formatClock(cue.start, '.')} --> ${formatClock(cue.end, '.')}\n${text}\n`;
+  });
+  return ['WEBVTT\n', ...blocks].join('\n');
+}
+
+function toLrc(cues: Cue[]): string {
+  const lines: string[] = [];
+  cues.forEach((cue, index) => {
+    // Enhanced LRC when word timing exists; bilingual lines share one timestamp
+    const text = cue.words
+      ? cue.words.map(word => `<${formatLrcTime(word.offset)}> ${word.text}`).join(' ')
+      : cue.lines.join(' / ');
+    lines.push(`[${formatLrcTime(cue.start)}]${text}`);
+
+    // LRC has no end times: an empty line clears the screen when there's a gap before the next cue
+    const next = cues[index + 1];
+    if (!next || next.start > cue.end) {
+      lines.push(`[${formatLrcTime(cue.end)}]`);
+    }
+  });
+  return lines.join('\n') + '\n';
+}
+
+function toJson(transcript: Transcript, options: TranscriptExportOptions): string {
+  if (options.language === undefined) {
+    return JSON.stringify(transcript, null, 2);
+  }
+
+  const index = transcript.languages.indexOf(options.language);
+  const items: TranscriptItem[] = transcript.items
+    .filter(item => item.text[index])
+    .map(item => ({
+      text: [item.text[index]],
+      offset: item.offset,
+      duration: item.duration,
+      ...(item.words?.[index]?.length ? { words: [item.words[index]] } : {})
+    }));
+  return JSON.stringify({ languages: [options.language], items }, null, 2);
+}
+
+/**
+ * Serializes a merged transcript as subtitles or lyrics, either one language
+ * track or all languages stacked into bilingual cues
+ */
+export function exportTranscript(transcript: Transcript, format: TranscriptExportFormat, options: TranscriptExportOptions = {}): string {
+  const cues = selectCues(transcript, options);
+
+  switch (format) {
+    case 'srt':
+      return toSrt(cues);
+    case 'vtt':
+      return toVtt(cues);
+    case 'lrc':
+      return toLrc(cues);
+    case 'json':
+      return toJson(transcript, options);
+  }
+}
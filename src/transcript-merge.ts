@@ -0,0 +1,136 @@
+import { MergePolicy, TranscriptItem, TranscriptWord } from './types.js';
+
+export interface LanguageTrack {
+  lang: string;
+  items: TranscriptItem[]; // single-language items, as produced by the parsers
+}
+
+function overlap(a: TranscriptItem, b: TranscriptItem): number {
+  return Math.min(a.offset + a.duration, b.offset + b.duration) - Math.max(a.offset, b.offset);
+}
+
+function distance(a: TranscriptItem, b: TranscriptItem): number {
+  return Math.max(0, Math.max(a.offset, b.offset) - Math.min(a.offset + a.duration, b.offset + b.duration));
+}
+
+/**
+ * Base-timed merge: the first track decides when lines change. Every secondary
+ * cue is attached to exactly one base cue (the one it overlaps most, or the
+ * nearest one when it overlaps none), so nothing is dropped or shown twice.
+ */
+function mergeBaseTimed(tracks: LanguageTrack[]): TranscriptItem[] {
+  const base = tracks[0].items;
+  const merged: TranscriptItem[] = base.map(item => ({
+    text: [item.text[0]],
+    offset: item.offset,
+    duration: item.duration,
+    words: [item.words ? item.words[0] : []]
+  }));
+
+  for (const track of tracks.slice(1)) {
+    const texts: string[][] = base.map(() => []);
+    const words: TranscriptWord[][] = base.map(() => []);
+
+    for (const cue of track.items) {
+      let target = 0;
+      let bestOverlap = -Infinity;
+      let bestDistance = Infinity;
+      base.forEach((baseItem, index) => {
+        const amount = overlap(baseItem, cue);
+        const gap = distance(baseItem, cue);
+        if (amount > bestOverlap || (amount <= 0 && bestOverlap <= 0 && gap < bestDistance)) {
+          target = index;
+          bestOverlap = amount;
+          bestDistance = gap;
+        }
+      });
+
+      texts[target].push(cue.text[0]);
+      if (cue.words) words[target].push(...cue.words[0]);
+    }
+
+    merged.forEach((item, index) => {
+      item.text.push(texts[index].join(' '));
+      item.words!.push(words[index]);
+    });
+  }
+
+  return merged;
+}
+
+/**
+ * Independent merge: every cue start and end in any language is a change
+ * point, and each language shows whichever of its cues covers the interval.
+ * Intervals where nothing changes are joined back together.
+ */
+function mergeIndependent(tracks: LanguageTrack[]): TranscriptItem[] {
+  const points = new Set<number>();
+  for (const track of tracks) {
+    for (const item of track.items) {
+      points.add(item.offset);
+      points.add(item.offset + item.duration);
+    }
+  }
+  const times = Array.from(points).sort((a, b) => a - b);
+
+  const merged: TranscriptItem[] = [];
+  let previousActive: (TranscriptItem | undefined)[] | null = null;
+
+  for (let i = 0; i < times.length - 1; i++) {
+    const start = times[i];
+    const end = times[i + 1];
+
+    // Where a language's own cues overlap, the one that started last wins
+    const active = tracks.map(track => {
+      let current: TranscriptItem | undefined;
+      for (const item of track.items) {
+        if (item.offset <= start && item.offset + item.duration >= end && (!current || item.offset >= current.offset)) {
+          current = item;
+        }
+      }
+      return current;
+    });
+
+    if (active.every(item => !item)) {
+      previousActive = null;
+      continue;
+    }
+
+    const last = merged[merged.length - 1];
+    const unchanged = previousActive && last && last.offset + last.duration === start
+      && active.every((item, index) => item === previousActive![index]);
+    if (unchanged) {
+      last.duration = end - last.offset;
+    } else {
+      merged.push({
+        text: active.map(item => (item ? item.text[0] : '')),
+        offset: start,
+        duration: end - start,
+        words: active.map(item => (item && item.words ? item.words[0] : []))
+      });
+    }
+    previousActive = active;
+  }
+
+  return merged;
+}
+
+/**
+ * Merges single-language tracks into items whose text (and words) hold one entry per track, in track order
+ */
+export function mergeTracks(tracks: LanguageTrack[], policy: MergePolicy = 'base'): TranscriptItem[] {
+  if (tracks.length === 0) return [];
+
+  // With no base cues there is no base timing to attach to, so each language keeps its own
+  const independent = policy === 'independent' || tracks[0].items.length === 0;
+  const merged = independent ? mergeIndependent(tracks) : mergeBaseTimed(tracks);
+
+  // Only keep word timing where at least one language has it
+  for (const item of merged) {
+    if (item.words!.every(words => words.length === 0)) {
+      delete item.words;
+    }
+  }
+
+  return merged;
+}
@@ -0,0 +1,272 @@
+import { TranscriptFormat, TranscriptItem, TranscriptWord } from './types.js';
+
+/**
+ * Turns the contents of a timed lyric/subtitle file into single-language transcript items
+ */
+export interface TranscriptParser {
+  readonly format: TranscriptFormat;
+  readonly extensions: string[];
+  parse(content: string): TranscriptItem[];
+}
+
+// How long the last line of an LRC file stays up, since LRC has no end times
+const LRC_LAST_LINE_DURATION = 5000;
+
+function toMilliseconds(hours: string | undefined, minutes: string, seconds: string, fraction: string | undefined): number {
+  // Fractions may be hundredths (LRC) or milliseconds (SRT/VTT)
+  const ms = fraction ? Math.round(parseInt(fraction) * Math.pow(10, 3 - fraction.length)) : 0;
+  return ((hours ? parseInt(hours) : 0) * 3600 + parseInt(minutes) * 60 + parseInt(seconds)) * 1000 + ms;
+}
+
+/**
+ * WebVTT, including the per-word `<00:00:12.340>` timestamps of YouTube auto captions
+ */
+export class VttParser implements TranscriptParser {
+  readonly format = 'vtt' as const;
+  readonly extensions = ['.vtt'];
+
+  parse(vttContent: string): TranscriptItem[] {
+    const items: TranscriptItem[] = [];
+    const lines = vttContent.split('\n');
+
+    const timeRegex = /(?:(\d{2,}):)?(\d{2}):(\d{2})\.(\d{3}) --> (?:(\d{2,}):)?(\d{2}):(\d{2})\.(\d{3})/;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+
+      const timeMatch = line.match(timeRegex);
+      if (timeMatch) {
+        const currentStart = toMilliseconds(timeMatch[1], timeMatch[2], timeMatch[3], timeMatch[4]);
+        const currentEnd = toMilliseconds(timeMatch[5], timeMatch[6], timeMatch[7], timeMatch[8]);
+
+        // Next line(s) are text until empty line
+        let textLines: string[] = [];
+        let words: TranscriptWord[] = [];
+        let hasWordTiming = false;
+        let j = i + 1;
+        // Only a truly empty line ends the cue; auto captions pad cues with whitespace-only lines
+        while (j < lines.length && lines[j].replace(/\r$/, '') !== '') {
+          const parsed = this.parseCueLine(lines[j], currentStart);
+          if (parsed.text) {
+            textLines.push(parsed.text);
+            words.push(...parsed.words);
+          }
+          hasWordTiming = hasWordTiming || parsed.hasWordTiming;
+          j++;
+        }
+
+        if (textLines.length > 0) {
+          items.push({
+            text: [textLines.join(' ')], // Store as single string in array initially
+            offset: currentStart,
+            duration: currentEnd - currentStart,
+            ...(hasWordTiming ? { words: [words] } : {})
+          });
+        }
+
+        i = j;
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Parses one cue text line, keeping the per-word timestamps YouTube auto
+   * captions carry, e.g. `we're<00:00:12.340><c> no</c><00:00:12.600><c> strangers</c>`.
+   * Words before the first timestamp start with the cue.
+   */
+  private parseCueLine(line: string, cueStart: number): { text: string; words: TranscriptWord[]; hasWordTiming: boolean } {
+    const timestampRegex = /<(?:(\d{2,}):)?(\d{2}):(\d{2})\.(\d{3})>/g;
+    const words: TranscriptWord[] = [];
+    let hasWordTiming = false;
+    let wordStart = cueStart;
+    let lastIndex = 0;
+
+    const addWords = (chunk: string, offset: number) => {
+      // Remove VTT tags like <c.colorCCCCCC>...</c> or <b>...</b>
+      const clean = chunk.replace(/<[^>]*>/g, '');
+      for (const text of clean.split(/\s+/)) {
+        if (text) words.push({ text, offset });
+      }
+    };
+
+    let match: RegExpExecArray | null;
+    while ((match = timestampRegex.exec(line)) !== null) {
+      addWords(line.slice(lastIndex, match.index), wordStart);
+      hasWordTiming = true;
+      wordStart = toMilliseconds(match[1], match[2], match[3], match[4]);
+      lastIndex = match.index + match[0].length;
+    }
+    addWords(line.slice(lastIndex), wordStart);
+
+    return { text: words.map(word => word.text).join(' '), words, hasWordTiming };
+  }
+}
+
+/**
+ * SubRip (.srt)
+ */
+export class SrtParser implements TranscriptParser {
+  readonly format = 'srt' as const;
+  readonly extensions = ['.srt'];
+
+  parse(content: string): TranscriptItem[] {
+    const items: TranscriptItem[] = [];
+    const timeRegex = /(\d{1,2}):(\d{2}):(\d{2})[,.](\d{1,3})\s*-->\s*(\d{1,2}):(\d{2}):(\d{2})[,.](\d{1,3})/;
+
+    // Cues are separated by blank lines: index, timing, then text lines
+    for (const block of content.replace(/\r/g, '').split(/\n\s*\n/)) {
+      const lines = block.split('\n');
+      const timingIndex = lines.findIndex(line => timeRegex.test(line));
+      if (timingIndex === -1) continue;
+
+      const timeMatch = lines[timingIndex].match(timeRegex)!;
+      const start = toMilliseconds(timeMatch[1], timeMatch[2], timeMatch[3], timeMatch[4]);
+      const end = toMilliseconds(timeMatch[5], timeMatch[6], timeMatch[7], timeMatch[8]);
+
+      const text = lines
+        .slice(timingIndex + 1)
+        // Strip HTML-style tags (<i>, <font>) and ASS positioning like {\an8}
+        .map(line => line.replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, '').trim())
+        .filter(Boolean)
+        .join(' ');
+
+      if (text) {
+        items.push({ text: [text], offset: start, duration: end - start });
+      }
+    }
+
+    return items;
+  }
+}
+
+/**
+ * LRC lyrics, including enhanced LRC with `<mm:ss.xx>` word timestamps
+ */
+export class LrcParser implements TranscriptParser {
+  readonly format = 'lrc' as const;
+  readonly extensions = ['.lrc'];
+
+  parse(content: string): TranscriptItem[] {
+    const lineTimeRegex = /\[(\d{1,3}):(\d{2})(?:[.:](\d{1,3}))?\]/g;
+    const wordTimeRegex = /<(\d{1,3}):(\d{2})(?:[.:](\d{1,3}))?>/g;
+    const entries: { offset: number; text: string; words?: TranscriptWord[] }[] = [];
+    let globalOffset = 0;
+
+    for (const rawLine of content.replace(/\r/g, '').split('\n')) {
+      const line = rawLine.trim();
+
+      // [offset:+500] shifts every timestamp earlier by 500ms
+      const offsetTag = line.match(/^\[offset:\s*([+-]?\d+)\s*\]$/i);
+      if (offsetTag) {
+        globalOffset = parseInt(offsetTag[1]);
+        continue;
+      }
+
+      // A line may carry several timestamps, e.g. a repeated chorus
+      const times: number[] = [];
+      let match: RegExpExecArray | null;
+      lineTimeRegex.lastIndex = 0;
+      let textStart = 0;
+      while ((match = lineTimeRegex.exec(line)) !== null && match.index === textStart) {
+        times.push(toMilliseconds(undefined, match[1], match[2], match[3]));
+        textStart = match.index + match[0].length;
+      }
+      if (times.length === 0) continue; // metadata such as [ar:] / [ti:]
+
+      const body = line.slice(textStart);
+      const hasWordTiming = wordTimeRegex.test(body);
+      wordTimeRegex.lastIndex = 0;
+
+      for (const time of times) {
+        if (!hasWordTiming) {
+          entries.push({ offset: time, text: body.trim() });
+          continue;
+        }
+
+        // Enhanced LRC: words before the first tag start with the line
+        const words: TranscriptWord[] = [];
+        let wordStart = time;
+        let lastIndex = 0;
+        const addWords = (chunk: string, offset: number) => {
+          for (const text of chunk.split(/\s+/)) {
+            if (text) words.push({ text, offset });
+          }
+        };
+        while ((match = wordTimeRegex.exec(body)) !== null) {
+          addWords(body.slice(lastIndex, match.index), wordStart);
+          wordStart = toMilliseconds(undefined, match[1], match[2], match[3]);
+          lastIndex = match.index + match[0].length;
+        }
+        addWords(body.slice(lastIndex), wordStart);
+
+        entries.push({ offset: time, text: words.map(word => word.text).join(' '), words });
+      }
+    }
+
+    entries.sort((a, b) => a.offset - b.offset);
+
+    // Lines sharing a timestamp (e.g. a line and its translation in bilingual files) become one cue
+    const cues: typeof entries = [];
+    for (const entry of entries) {
+      const previous = cues[cues.length - 1];
+      if (!previous || previous.offset !== entry.offset) {
+        cues.push({ ...entry });
+        continue;
+      }
+      if (!entry.text) continue;
+      if (previous.words || entry.words) {
+        // Untimed words count as sung along with the last timed word before them,
+        // so karaoke keeps one timing per word and the timings never go backwards
+        const untimed = (text: string, offset: number) =>
+          text.split(/\s+/).filter(Boolean).map(word => ({ text: word, offset }));
+        const words = previous.words || untimed(previous.text, previous.offset);
+        const lastOffset = words.length > 0 ? words[words.length - 1].offset : entry.offset;
+        previous.words = [...words, ...(entry.words || untimed(entry.text, lastOffset))];
+      }
+      previous.text = previous.text ? `${previous.text} ${entry.text}` : entry.text;
+    }
+
+    // LRC only has start times: each line lasts until the next one (empty lines end a line early)
+    const items: TranscriptItem[] = [];
+    for (let i = 0; i < cues.length; i++) {
+      const cue = cues[i];
+      if (!cue.text) continue;
+
+      const end = i + 1 < cues.length ? cues[i + 1].offset : cue.offset + LRC_LAST_LINE_DURATION;
+      const shift = (time: number) => Math.max(0, time - globalOffset);
+      items.push({
+        text: [cue.text],
+        offset: shift(cue.offset),
+        duration: end - cue.offset,
+        ...(cue.words ? { words: [cue.words.map(word => ({ text: word.text, offset: shift(word.offset) }))] } : {})
+      });
+    }
+
+    return items;
+  }
+}
+
+export const transcriptParsers: TranscriptParser[] = [new VttParser(), new SrtParser(), new LrcParser()];
+
+/**
+ * Picks a parser from an explicit format, the file extension, or the content itself
+ */
+export function getTranscriptParser(filename: string, content: string, format?: TranscriptFormat): TranscriptParser {
+  if (format) {
+    const parser = transcriptParsers.find(p => p.format === format);
+    if (!parser) throw new Error(`Unsupported transcript format: ${format}`);
+    return parser;
+  }
+
+  const lowerName = filename.toLowerCase();
+  const byExtension = transcriptParsers.find(p => p.extensions.some(ext => lowerName.endsWith(ext)));
+  if (byExtension) return byExtension;
+
+  if (/^\uFEFF?WEBVTT/.test(content)) return transcriptParsers.find(p => p.format === 'vtt')!;
+  if (/\d{2}:\d{2}:\d{2},\d{3}\s*-->/.test(content)) return transcriptParsers.find(p => p.format === 'srt')!;
+  if (/^\s*\[\d{1,3}:\d{2}/m.test(content)) return transcriptParsers.find(p => p.format === 'lrc')!;
+
+  throw new Error(`Could not detect the transcript format of ${filename}`);
+}
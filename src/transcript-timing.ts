@@ -0,0 +1,26 @@
+import { TranscriptItem } from './types.js';
+
+/**
+ * Moves every item (and its word timings) by offsetMs; positive values make lyrics appear later.
+ * Items pushed entirely before 0 are dropped and ones straddling 0 are trimmed to start at 0.
+ */
+export function shiftItems(items: TranscriptItem[], offsetMs: number): TranscriptItem[] {
+  if (!offsetMs) return items;
+
+  const shifted: TranscriptItem[] = [];
+  for (const item of items) {
+    const start = item.offset + offsetMs;
+    const end = start + item.duration;
+    if (end <= 0) continue;
+
+    shifted.push({
+      text: item.text,
+      offset: Math.max(0, start),
+      duration: end - Math.max(0, start),
+      ...(item.words
+        ? { words: item.words.map(words => words.map(word => ({ text: word.text, offset: Math.max(0, word.offset + offsetMs) }))) }
+        : {})
+    });
+  }
+  return shifted;
+}
@@ -0,0 +1,113 @@
+import { TranscriptItem, VideoConfig } from './types.js';
+
+/**
+ * Lyric transitions as a pure function of the frame time relative to the cue
+ * offset: the same frame always looks the same, whatever was rendered before.
+ * Every value is stepped (whole characters, alpha steps, whole pixel blocks),
+ * so frames within a step share a key and are only rendered once.
+ */
+
+const DEFAULT_DURATION_MS = 300;
+const DEFAULT_FADE_STEPS = 4;
+const SLIDE_DISTANCE = 0.1; // fraction of the frame height the lyrics slide in from
+const SCROLL_STEPS = 8;
+const SCROLL_MAX_GAP_MS = 2000; // a previous line older than this isn't kept on screen
+
+export interface TransitionFrame {
+  reveal: number[] | null; // typewriter: fraction of each language's characters shown
+  alpha: number; // lyric opacity
+  offsetY: number; // px the lyrics sit below their resting place
+  glitch: { seed: number; strength: number } | null; // glitch slices for this frame
+  previous: { item: TranscriptItem; progress: number } | null; // scroll: the line moving up and shrinking
+  key: string; // what sets this frame apart, for the frame key
+}
+
+const SETTLED: TransitionFrame = { reveal: null, alpha: 1, offsetY: 0, glitch: null, previous: null, key: '' };
+
+function easeOut(progress: number): number {
+  return 1 - Math.pow(1 - progress, 3);
+}
+
+/**
+ * Small deterministic PRNG (mulberry32), so glitch frames can be re-rendered identically
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * How the lyrics of `item` are drawn at timeMs; `previous` is the cue shown before it
+ */
+export function transitionFrame(
+  config: VideoConfig,
+  item: TranscriptItem | undefined,
+  previous: TranscriptItem | undefined,
+  timeMs: number
+): TransitionFrame {
+  const transition = config.transition;
+  if (!item || !transition || transition.type === 'none') return SETTLED;
+
+  // Short cues spend at most half their time animating
+  const duration = Math.min(transition.durationMs ?? DEFAULT_DURATION_MS, item.duration / 2);
+  const elapsed = timeMs - item.offset;
+  const progress = duration > 0 ? Math.min(1, Math.max(0, elapsed / duration)) : 1;
+  const pixelStep = Math.max(8, Math.floor(config.pixelScale || 1));
+  const slideOffset = (amount: number) =>
+    Math.round((amount * config.height * SLIDE_DISTANCE) / pixelStep) * pixelStep;
+
+  switch (transition.type) {
+    case 'typewriter': {
+      if (progress >= 1) return SETTLED;
+      const counts = item.text.map(text => Math.floor(progress * Array.from(text).length));
+      return {
+        ...SETTLED,
+        reveal: counts.map((count, index) => count / Math.max(1, Array.from(item.text[index]).length)),
+        key: `t${counts.join(',')}`
+      };
+    }
+
+    case 'fade': {
+      const steps = Math.max(1, transition.steps ?? DEFAULT_FADE_STEPS);
+      const step = Math.ceil(progress * steps);
+      return step >= steps ? SETTLED : { ...SETTLED, alpha: step / steps, key: `f${step}` };
+    }
+
+    case 'slide': {
+      const offsetY = slideOffset(1 - easeOut(progress));
+      return offsetY === 0 ? SETTLED : { ...SETTLED, offsetY, key: `s${offsetY}` };
+    }
+
+    case 'glitch': {
+      if (progress >= 1) return SETTLED;
+      const frame = Math.floor((elapsed * config.fps) / 1000);
+      return {
+        ...SETTLED,
+        glitch: { seed: Math.floor(item.offset) * 31 + frame, strength: 1 - progress },
+        key: `g${frame}`
+      };
+    }
+
+    case 'scroll': {
+      const kept = previous && item.offset - (previous.offset + previous.duration) <= SCROLL_MAX_GAP_MS ? previous : undefined;
+      const step = Math.round(easeOut(progress) * SCROLL_STEPS);
+      const offsetY = slideOffset(1 - step / SCROLL_STEPS);
+      if (!kept && offsetY === 0) return SETTLED;
+      return {
+        ...SETTLED,
+        offsetY,
+        previous: kept ? { item: kept, progress: step / SCROLL_STEPS } : null,
+        key: `r${step}${kept ? `\n${kept.text.join('\n')}` : ''}`
+      };
+    }
+
+    default:
+      return SETTLED;
+  }
+}
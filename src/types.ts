@@ -1,7 +1,166 @@
+export interface TranscriptWord {
+  text: string;
+  offset: number; // in milliseconds, when the word starts being sung
+}
+
 export interface TranscriptItem {
   text: string[];
   offset: number; // in milliseconds
   duration: number; // in milliseconds
+  words?: TranscriptWord[][]; // per language, parallel to text; empty where no word timing exists
+}
+
+/**
+ * A merged multi-language transcript; `languages[i]` labels `text[i]` of every item
+ */
+export interface Transcript {
+  languages: string[];
+  items: TranscriptItem[];
+}
+
+/**
+ * 'stream' pipes raw frames straight into FFmpeg; 'frames' writes a PNG
+ * sequence to disk first, which the web UI can preview while rendering;
+ * 'segments' rasterizes one image per lyric change and lets FFmpeg's concat
+ * demuxer hold each one for its exact duration
+ */
+export type RenderMode = 'stream' | 'frames' | 'segments';
+
+export type TranscriptFormat = 'vtt' | 'srt' | 'lrc';
+
+/**
+ * Where a project's lyrics come from: YouTube captions, or an uploaded lyric file
+ */
+export type TranscriptSource =
+  | { type: 'youtube' }
+  | { type: 'file'; filename: string; format: TranscriptFormat; path: string };
+
+export interface SubtitleLanguage {
+  code: string;
+  name: string;
+  isAuto: boolean; // auto-generated captions rather than uploaded subtitles
+}
+
+/**
+ * How secondary languages line up with the first: 'base' keeps the first language's
+ * cue timing, 'independent' lets every language change lines on its own schedule
+ */
+export type MergePolicy = 'base' | 'independent';
+
+export type FontWeight = 'normal' | 'bold';
+
+/**
+ * Writing systems that can have their own fallback fonts. 'cjk' covers Han and kana;
+ * 'common' is punctuation, digits and spaces, which follow the text around them.
+ */
+export type ScriptName =
+  | 'latin'
+  | 'cyrillic'
+  | 'greek'
+  | 'cjk'
+  | 'hangul'
+  | 'mongolian'
+  | 'arabic'
+  | 'hebrew'
+  | 'thai'
+  | 'devanagari'
+  | 'common'
+  | 'other';
+
+/**
+ * Per-language text settings, matched to transcript languages by position ([0] is the first language)
+ */
+export interface LanguageStyle {
+  maxLines?: number; // overrides VideoConfig.maxLines for this language
+  fontFamily?: string;
+  fontSize?: number; // px; defaults to fontSize for the first language and 80% of it for the rest
+  fontWeight?: FontWeight;
+  color?: string;
+  strokeColor?: string; // outline drawn behind the text
+  strokeWidth?: number; // px
+  shadowColor?: string;
+  shadowBlur?: number; // px
+  shadowOffsetX?: number; // px
+  shadowOffsetY?: number; // px
+  letterSpacing?: number; // extra px between characters
+  position?: number; // vertical center as a fraction of the frame height (0 = top, 1 = bottom)
+}
+
+export type BackgroundType = 'solid' | 'gradient' | 'image' | 'video' | 'thumbnail';
+
+/**
+ * What sits behind the lyrics. 'image' and 'video' use the project's uploaded
+ * background file, 'thumbnail' the YouTube thumbnail; without one, the
+ * background falls back to backgroundColor.
+ */
+export interface BackgroundConfig {
+  type: BackgroundType;
+  colors?: string[]; // gradient stops, evenly spaced
+  angle?: number; // gradient direction in degrees, as in CSS (180 = top to bottom)
+  blur?: number; // image/thumbnail blur radius in px
+  pixelate?: number; // image/thumbnail block size in px
+  dim?: number; // 0-1, darkens images and video so the lyrics stay readable
+}
+
+export type VisualizerStyle = 'spectrum' | 'waveform';
+
+/**
+ * Audio-reactive layer drawn under the lyrics as blocks of solid pixels
+ */
+export interface VisualizerConfig {
+  style: VisualizerStyle;
+  position?: 'bottom' | 'center' | 'top'; // default 'bottom'
+  height?: number; // fraction of the frame height (default 0.25)
+  bars?: number; // spectrum bands or waveform columns (default 32)
+  blockSize?: number; // px per block (default 16)
+  color?: string; // defaults to textColor
+  opacity?: number; // 0-1 (default 0.5)
+}
+
+export type TransitionType = 'none' | 'typewriter' | 'fade' | 'slide' | 'glitch' | 'scroll';
+
+/**
+ * How a new line appears: 'typewriter' reveals it character by character, 'fade'
+ * in a few opacity steps, 'slide' moves it up into place, 'glitch' tears it
+ * into shifted slices, and 'scroll' slides it in while the previous line
+ * shrinks and stays above it
+ */
+export interface TransitionConfig {
+  type: TransitionType;
+  durationMs?: number; // default 300, at most half of a cue
+  steps?: number; // opacity steps for 'fade' (default 4)
+}
+
+export type GapIndicator = 'dots' | 'bar' | 'none';
+
+/**
+ * What fills long gaps between lyrics: an instrumental label (or a title card
+ * during the intro) and a countdown to the next line
+ */
+export interface GapConfig {
+  minGapMs?: number; // shorter gaps stay empty (default 5000)
+  indicator?: GapIndicator; // countdown style (default 'dots')
+  countdownMs?: number; // how long before the next line the countdown starts (default 3000)
+  instrumentalLabel?: string | false; // default '♪ instrumental ♪'; false shows no label
+  titleCard?: boolean; // show the song title and artist during the intro instead of the label
+}
+
+/**
+ * Title and artist for the title and credits cards
+ */
+export interface SongInfo {
+  title: string;
+  artist?: string;
+  durationMs?: number; // length of the audio, so the outro follows the song rather than its last line
+}
+
+/**
+ * A card shown before the song starts (intro) or after it ends (outro), with the
+ * title and artist and any extra lines. The audio is delayed by the intro.
+ */
+export interface CardConfig {
+  durationMs?: number; // default 4000
+  lines?: string[]; // shown under the title, e.g. 'Lyrics: …', 'Translation: …'
 }
 
 export interface VideoConfig {
@@ -9,8 +168,88 @@ export interface VideoConfig {
   height: number;
   fps: number;
   backgroundColor: string;
+  background?: BackgroundConfig;
+  visualizer?: VisualizerConfig;
+  transition?: TransitionConfig;
+  gaps?: GapConfig; // without it, gaps between lyrics show only the background
+  introCard?: CardConfig;
+  outroCard?: CardConfig;
   textColor: string;
   fontSize: number;
   fontFamily: string;
+  fontWeight?: FontWeight;
+  renderMode?: RenderMode;
+  karaoke?: boolean; // progressively color each word as it's sung, when word timing is available
+  highlightColor?: string;
+  maxLines?: number; // lines per language before text is shrunk (autoFit) or cut off
+  autoFit?: boolean; // shrink the font until every language's text fits instead of cutting lines
+  safeMargin?: number; // fraction of the frame kept clear of text on each side
+  pixelScale?: number; // >1 draws each frame this many times smaller and scales it up with hard pixel edges
+  palette?: string[]; // colors low-res lyrics are snapped to; defaults to the text, highlight and style colors
+  languageStyles?: LanguageStyle[];
+  fallbackFonts?: Partial<Record<ScriptName, string[]>>; // families tried, in order, for glyphs the language's font lacks
+  offsetMs?: number; // shifts every lyric; positive values make lyrics appear later
+  languageOffsets?: Record<string, number>; // extra shift per language code, applied when tracks are merged
+  mergePolicy?: MergePolicy;
+  autoAlign?: boolean; // snap cue starts/ends to vocal onsets and pauses in the audio
 }
 
+
+export interface VideoChapter {
+  title: string;
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * What yt-dlp reports about a YouTube video, kept on the project
+ */
+export interface VideoMetadata {
+  title: string;
+  track?: string; // song name, set on music uploads
+  artist?: string; // set on music uploads
+  uploader?: string;
+  durationMs?: number;
+  thumbnail?: string; // URL
+  chapters?: VideoChapter[];
+}
+
+export type ProjectStatus =
+  | 'idle'
+  | 'queued'
+  | 'downloading'
+  | 'aligning'
+  | 'generating'
+  | 'encoding'
+  | 'interrupted'
+  | 'cancelled'
+  | 'completed'
+  | 'error';
+
+// 'youtube' projects download their audio; 'upload' projects bring their own audio and lyric files
+export type ProjectSource = 'youtube' | 'upload';
+
+export interface ProjectState {
+  videoId: string; // YouTube video id, or a generated `local-…` id for uploaded projects
+  url: string; // empty for uploaded projects
+  source?: ProjectSource; // missing on projects saved before uploads existed, which are all YouTube
+  title?: string;
+  artist?: string; // shown on the intro title card with the title
+  status: ProjectStatus;
+  progress: number;
+  queuePosition?: number; // 1-based place in the render queue while status is 'queued'
+  currentFrame: number;
+  totalFrames: number;
+  error?: string;
+  config?: VideoConfig;
+  languages?: SubtitleLanguage[]; // as reported by yt-dlp when the project was created
+  metadata?: VideoMetadata; // YouTube projects only
+  selectedLanguages?: string[];
+  transcriptSource?: TranscriptSource;
+  transcriptEdited?: boolean; // render the saved transcript.json instead of reloading the source
+  audioFile?: string; // uploaded audio, relative to the project directory
+  backgroundFile?: string; // uploaded background image or video, relative to the project directory
+  outputPath?: string;
+  resumable?: boolean; // set when a run was cut short by a server restart
+  updatedAt?: string;
+}
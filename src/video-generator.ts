@@ -1,42 +1,141 @@
-import { createCanvas, CanvasRenderingContext2D, registerFont } from 'canvas';
-import { writeFile } from 'fs/promises';
+import { createCanvas, Canvas, CanvasRenderingContext2D, CanvasTextAlign } from 'canvas';
+import { readFile, readdir, rm, writeFile } from 'fs/promises';
+import { createHash } from 'crypto';
 import { join } from 'path';
-import ffmpeg from 'fluent-ffmpeg';
-import { TranscriptItem, VideoConfig } from './types.js';
-import { existsSync } from 'fs';
-
-// Register Pixelify Sans font if available
-// Check both local fonts directory and system font directory
-const localFontPath = join(process.cwd(), 'fonts', 'PixelifySans-Regular.ttf');
-const systemFontPath = '/usr/share/fonts/truetype/pixelify/PixelifySans-Regular.ttf';
-
-let fontPath: string | null = null;
-if (existsSync(localFontPath)) {
-  fontPath = localFontPath;
-} else if (existsSync(systemFontPath)) {
-  fontPath = systemFontPath;
-}
+import ffmpeg, { FfmpegCommand } from 'fluent-ffmpeg';
+import { FontWeight, SongInfo, TranscriptItem, VideoConfig } from './types.js';
+import { fontRegistry } from './font-registry.js';
+import { shiftItems } from './transcript-timing.js';
+import { LayoutLine, lineText, tokenize, wrapTokens } from './text-layout.js';
+import { FontRun, assignFonts } from './font-fallback.js';
+import { BackgroundAssets, BackgroundRenderer } from './background.js';
+import { VisualizerLayer } from './visualizer.js';
+import { TransitionFrame, seededRandom, transitionFrame } from './transitions.js';
+import { CardKind, GapFrame, LyricGap, findGaps, gapAt, gapFrame } from './gaps.js';
+import { introDuration, outroDuration } from './config.js';
+import { existsSync, statSync } from 'fs';
+import { PassThrough } from 'stream';
 
-if (fontPath) {
-  try {
-    registerFont(fontPath, { family: 'Pixelify Sans' });
-    console.log('✅ Registered Pixelify Sans font');
-  } catch (error) {
-    console.warn('Could not register Pixelify Sans font:', error);
-  }
+// Register every font in fonts/ (plus the system Pixelify Sans) before any canvas exists
+fontRegistry.scan();
+if (fontRegistry.list().length > 0) {
+  console.log(`✅ Registered fonts: ${fontRegistry.families().join(', ')}`);
 } else {
-  console.warn('⚠️  Pixelify Sans font not found. Using fallback fonts.');
+  console.warn('⚠️  No fonts found in fonts/. Using fallback fonts.');
+}
+
+const DEFAULT_HIGHLIGHT_COLOR = '#FFD700';
+const DEFAULT_MAX_LINES = 2;
+const DEFAULT_SAFE_MARGIN = 0.05;
+// autoFit never shrinks text below this fraction of the configured size
+const MIN_FIT_SCALE = 0.4;
+const SECONDARY_LANGUAGE_SCALE = 0.8;
+// Scroll transition: how small the previous line ends up, and how faded
+const SCROLL_PREVIOUS_SCALE = 0.6;
+const SCROLL_PREVIOUS_ALPHA = 0.5;
+// Gap countdown blocks, as a fraction of the font size
+const COUNTDOWN_BLOCK_SCALE = 0.25;
+// Credit lines on the intro/outro cards, as a fraction of the font size
+const CREDITS_SCALE = 0.5;
+
+// Low-res mode: the frame is drawn this many times smaller, then scaled back up with hard edges
+interface LowResTarget {
+  canvas: Canvas;
+  ctx: CanvasRenderingContext2D;
+  scale: number;
+  palette: number[]; // 0xRRGGBB
+  nearest: Map<number, number>; // drawn color -> palette color, filled as colors appear
+}
+
+// A language's LanguageStyle merged over the global config
+interface TextStyle {
+  fontFamily: string;
+  fontSize: number;
+  fontWeight: FontWeight;
+  color: string;
+  strokeColor?: string;
+  strokeWidth: number;
+  shadowColor?: string;
+  shadowBlur: number;
+  shadowOffsetX: number;
+  shadowOffsetY: number;
+  letterSpacing: number;
+  position?: number;
+  maxLines: number;
+}
+
+/**
+ * File name of a PNG-sequence frame (1-based, matching FFmpeg's frame_%08d.png input pattern)
+ */
+export function frameFileName(frameNumber: number): string {
+  return `frame_${String(frameNumber).padStart(8, '0')}.png`;
+}
+
+/**
+ * File name of a segment image, derived from the frame key so it can be reused across renders
+ */
+function segmentFileName(key: string): string {
+  return `segment_${createHash('sha1').update(key).digest('hex').slice(0, 16)}.png`;
+}
+
+// Written next to stored frames and segment images: the render inputs they were drawn with
+const FINGERPRINT_FILE = 'render.fingerprint';
+
+/**
+ * A file's path, size and modification time, so a replaced file reads as changed
+ */
+function fileStamp(path: string): string {
+  if (!existsSync(path)) return path;
+  const { size, mtimeMs } = statSync(path);
+  return `${path}:${size}:${mtimeMs}`;
 }
 
 export class VideoGenerator {
   private config: VideoConfig;
-  private canvas: any;
-  private ctx: CanvasRenderingContext2D;
+  private canvas: Canvas; // full-size canvas that frames are read from
+  private output: CanvasRenderingContext2D;
+  private ctx: CanvasRenderingContext2D; // where lyrics are drawn; the small canvas in low-res mode, a layer for glitches
+  private background: BackgroundRenderer;
+  private visualizer: VisualizerLayer;
+  private lowRes: LowResTarget | null = null;
+  private lyricLayer: Canvas | null = null; // full-size lyrics-only canvas, so glitches leave the background alone
+  private fontRuns = new Map<string, FontRun[]>(); // by family and text
+  private missingGlyphs = new Set<string>();
+  private previousItems = new WeakMap<TranscriptItem, TranscriptItem>(); // cue shown before each cue, for transitions
+  private songInfo: SongInfo | undefined; // for the intro title card
 
   constructor(config: VideoConfig) {
     this.config = config;
+
+    // Pick up fonts uploaded since startup; they must be registered before the canvas is created
+    fontRegistry.scan();
+    const families = [config.fontFamily, ...(config.languageStyles || []).map(style => style.fontFamily)];
+    for (const family of new Set(families.filter((name): name is string => !!name))) {
+      if (!fontRegistry.has(family)) {
+        console.warn(`⚠️  Font "${family}" is not registered; falling back to Pixelify Sans`);
+      }
+    }
+
     this.canvas = createCanvas(config.width, config.height);
-    this.ctx = this.canvas.getContext('2d');
+    this.output = this.canvas.getContext('2d');
+    this.ctx = this.output;
+    this.background = new BackgroundRenderer(config);
+    this.visualizer = new VisualizerLayer(config);
+
+    const pixelScale = Math.max(1, Math.floor(config.pixelScale || 1));
+    if (pixelScale > 1) {
+      const small = createCanvas(Math.ceil(config.width / pixelScale), Math.ceil(config.height / pixelScale));
+      this.ctx = small.getContext('2d');
+      // Layout keeps working in output pixels; the transform shrinks everything onto the small canvas
+      this.ctx.scale(1 / pixelScale, 1 / pixelScale);
+      this.ctx.antialias = 'none';
+      this.lowRes = { canvas: small, ctx: this.ctx, scale: pixelScale, palette: this.buildPalette(), nearest: new Map() };
+    } else if (config.transition?.type === 'glitch') {
+      // The low-res canvas already holds only the lyrics; otherwise they get their own layer to tear
+      this.lyricLayer = createCanvas(config.width, config.height);
+      this.ctx = this.lyricLayer.getContext('2d');
+    }
+
     this.setupPixelatedRendering();
   }
 
@@ -51,99 +150,596 @@ export class VideoGenerator {
   }
 
   /**
-   * Renders text with pixelated effect using Pixelify Sans font
+   * Colors a low-res frame may use: the configured palette, or every color the config draws with
+   */
+  private buildPalette(): number[] {
+    const styles = this.config.languageStyles || [];
+    const colors = this.config.palette?.length
+      ? this.config.palette
+      : [
+          this.config.textColor,
+          ...(this.config.karaoke ? [this.config.highlightColor || DEFAULT_HIGHLIGHT_COLOR] : []),
+          ...styles.flatMap(style => [style.color, style.strokeColor, style.shadowColor])
+        ];
+
+    const palette = new Set<number>();
+    for (const color of colors) {
+      if (!color) continue;
+      // Let canvas parse the CSS color; it reads back as #rrggbb, or rgba() when translucent
+      this.ctx.fillStyle = '#000000';
+      this.ctx.fillStyle = color;
+      const parsed = String(this.ctx.fillStyle);
+      const hex = /^#([0-9a-f]{6})$/i.exec(parsed);
+      const rgba = /^rgba?\((\d+),\s*(\d+),\s*(\d+)/.exec(parsed);
+      if (hex) palette.add(parseInt(hex[1], 16));
+      else if (rgba) palette.add((Number(rgba[1]) << 16) | (Number(rgba[2]) << 8) | Number(rgba[3]));
+    }
+    return palette.size > 0 ? Array.from(palette) : [0x000000, 0xffffff];
+  }
+
+  /**
+   * Snaps the low-res lyric layer to its palette, which removes the anti-aliasing
+   * node-canvas applies to text, then scales it up over the background with
+   * nearest-neighbor sampling
+   */
+  private upscaleLowRes(target: LowResTarget): void {
+    const { canvas, ctx, scale, palette, nearest } = target;
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const data = image.data;
+
+    for (let i = 0; i < data.length; i += 4) {
+      // Edge pixels are either fully lyric or fully background
+      if (data[i + 3] < 128) {
+        data[i + 3] = 0;
+        continue;
+      }
+      const drawn = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+      let color = nearest.get(drawn);
+      if (color === undefined) {
+        let best = Infinity;
+        for (const candidate of palette) {
+          const dr = data[i] - (candidate >> 16);
+          const dg = data[i + 1] - ((candidate >> 8) & 0xff);
+          const db = data[i + 2] - (candidate & 0xff);
+          const distance = dr * dr + dg * dg + db * db;
+          if (distance < best) {
+            best = distance;
+            color = candidate;
+          }
+        }
+        nearest.set(drawn, color!);
+      }
+      data[i] = color! >> 16;
+      data[i + 1] = (color! >> 8) & 0xff;
+      data[i + 2] = color! & 0xff;
+      data[i + 3] = 255;
+    }
+    ctx.putImageData(image, 0, 0);
+
+    this.output.imageSmoothingEnabled = false;
+    this.output.drawImage(canvas, 0, 0, canvas.width * scale, canvas.height * scale);
+  }
+
+  /**
+   * Resolves the text style for a language by its position in the transcript
+   */
+  private styleFor(langIndex: number): TextStyle {
+    const style = this.config.languageStyles?.[langIndex] || {};
+    return {
+      fontFamily: style.fontFamily || this.config.fontFamily,
+      fontSize: style.fontSize || (langIndex === 0 ? this.config.fontSize : this.config.fontSize * SECONDARY_LANGUAGE_SCALE),
+      fontWeight: style.fontWeight || this.config.fontWeight || 'bold',
+      color: style.color || this.config.textColor,
+      strokeColor: style.strokeColor,
+      strokeWidth: style.strokeWidth ?? (style.strokeColor ? 2 : 0),
+      shadowColor: style.shadowColor,
+      shadowBlur: style.shadowBlur ?? 0,
+      shadowOffsetX: style.shadowOffsetX ?? 0,
+      shadowOffsetY: style.shadowOffsetY ?? 0,
+      letterSpacing: style.letterSpacing ?? 0,
+      position: style.position,
+      maxLines: style.maxLines ?? this.config.maxLines ?? DEFAULT_MAX_LINES
+    };
+  }
+
+  /**
+   * Font string used for both drawing and measuring; Pixelify Sans backs up missing families
+   */
+  private fontFor(style: TextStyle, fontSize: number, family: string = style.fontFamily): string {
+    return `${style.fontWeight} ${fontSize}px "${family}", "Pixelify Sans", "Courier New", monospace`;
+  }
+
+  /**
+   * Splits text into runs that share a font: the style's family where it has the
+   * glyphs, otherwise the configured fallbacks for the script, then any registered font
+   */
+  private runsFor(text: string, style: TextStyle): FontRun[] {
+    const key = `${style.fontFamily}\n${text}`;
+    let runs = this.fontRuns.get(key);
+    if (!runs) {
+      runs = assignFonts(
+        text,
+        style.fontFamily,
+        script => [...(this.config.fallbackFonts?.[script] || []), ...fontRegistry.families()],
+        (family, char) => fontRegistry.covers(family, char),
+        this.missingGlyphs
+      );
+      this.fontRuns.set(key, runs);
+    }
+    return runs;
+  }
+
+  /**
+   * Width of text at the given size, including fallback fonts and letter spacing
+   */
+  private measureWidth(text: string, style: TextStyle, fontSize: number): number {
+    let width = style.letterSpacing * Math.max(0, Array.from(text).length - 1);
+    for (const run of this.runsFor(text, style)) {
+      this.ctx.font = this.fontFor(style, fontSize, run.family);
+      width += this.ctx.measureText(run.text).width;
+    }
+    return width;
+  }
+
+  /**
+   * Fills or strokes text one font run at a time; node-canvas has no letterSpacing,
+   * so spaced text is drawn one character at a time
+   */
+  private drawTextRun(text: string, x: number, y: number, style: TextStyle, fontSize: number, mode: 'fill' | 'stroke'): void {
+    const draw = (value: string, atX: number) => {
+      if (mode === 'fill') this.ctx.fillText(value, atX, y);
+      else this.ctx.strokeText(value, atX, y);
+    };
+
+    const runs = this.runsFor(text, style);
+    if (runs.length === 1 && !style.letterSpacing) {
+      this.ctx.font = this.fontFor(style, fontSize, runs[0].family);
+      draw(text, x);
+      return;
+    }
+
+    const align = this.ctx.textAlign;
+    let cursor = align === 'center' ? x - this.measureWidth(text, style, fontSize) / 2 : x;
+    this.ctx.textAlign = 'left';
+    for (const run of runs) {
+      this.ctx.font = this.fontFor(style, fontSize, run.family);
+      if (!style.letterSpacing) {
+        draw(run.text, cursor);
+        cursor += this.ctx.measureText(run.text).width;
+        continue;
+      }
+      for (const char of run.text) {
+        draw(char, cursor);
+        cursor += this.ctx.measureText(char).width + style.letterSpacing;
+      }
+    }
+    this.ctx.textAlign = align;
+  }
+
+  private clearShadow(): void {
+    this.ctx.shadowColor = 'rgba(0, 0, 0, 0)';
+    this.ctx.shadowBlur = 0;
+    this.ctx.shadowOffsetX = 0;
+    this.ctx.shadowOffsetY = 0;
+  }
+
+  /**
+   * Renders text with pixelated effect. Shadow and outline are skipped for
+   * overlays such as the karaoke highlight, which sit on already-drawn text.
    */
-  private renderPixelatedText(text: string, x: number, y: number, fontSize: number): void {
-    // Set font - using Pixelify Sans for pixelated look
-    // Font is registered at module level if available
-    this.ctx.font = `bold ${fontSize}px "Pixelify Sans", "Courier New", monospace`;
-    this.ctx.fillStyle = this.config.textColor;
+  private renderPixelatedText(
+    text: string,
+    x: number,
+    y: number,
+    style: TextStyle,
+    fontSize: number,
+    color: string = style.color,
+    align: CanvasTextAlign = 'center',
+    withEffects = true
+  ): void {
+    this.ctx.textAlign = align;
+
+    // The shadow is cast once, by the outline if there is one, otherwise by the first fill
+    if (withEffects && style.shadowColor) {
+      // Shadows ignore the canvas transform, so low-res mode scales them by hand
+      const shadowScale = this.lowRes ? 1 / this.lowRes.scale : 1;
+      this.ctx.shadowColor = style.shadowColor;
+      this.ctx.shadowBlur = style.shadowBlur * shadowScale;
+      this.ctx.shadowOffsetX = style.shadowOffsetX * shadowScale;
+      this.ctx.shadowOffsetY = style.shadowOffsetY * shadowScale;
+    }
+
+    if (withEffects && style.strokeColor && style.strokeWidth > 0) {
+      this.ctx.strokeStyle = style.strokeColor;
+      // Half of the stroke lies under the fill, so double it to get the visible width
+      this.ctx.lineWidth = style.strokeWidth * 2;
+      this.ctx.lineJoin = 'round';
+      this.drawTextRun(text, x, y, style, fontSize, 'stroke');
+      this.clearShadow();
+    }
+
+    this.ctx.fillStyle = color;
     
     // Draw text multiple times with slight offset for bold pixelated effect
-    this.ctx.fillText(text, x, y);
-    this.ctx.fillText(text, x + 1, y);
-    this.ctx.fillText(text, x, y + 1);
+    this.drawTextRun(text, x, y, style, fontSize, 'fill');
+    this.clearShadow();
+    this.drawTextRun(text, x + 1, y, style, fontSize, 'fill');
+    this.drawTextRun(text, x, y + 1, style, fontSize, 'fill');
   }
 
   /**
-   * Renders a frame with lyrics
+   * Number of words per language already sung at the given time,
+   * or null when karaoke highlighting doesn't apply to this item
    */
+  private sungWordCounts(item: TranscriptItem | undefined, timeMs: number): number[] | null {
+    if (!this.config.karaoke || !item || !item.words) return null;
+    return item.words.map(words => words.filter(word => word.offset <= timeMs).length);
+  }
+
+  /**
+   * Identifies what a frame looks like, so frames with equal keys can share one rendered image
+   */
+  private frameKey(item: TranscriptItem | undefined, timeMs: number, gap?: LyricGap): string {
+    const sungCounts = this.sungWordCounts(item, timeMs);
+    const transition = this.transitionAt(item, timeMs).key;
+    const filler = this.gapFrameAt(item, gap, timeMs)?.key;
+    const lyrics = item
+      ? item.text.join('\n') + (sungCounts ? `\n${sungCounts.join(',')}` : '') + (transition ? `\n@${transition}` : '')
+      : filler ? `%${filler}` : '';
+    const visualizer = this.visualizer.key(timeMs - this.introMs);
+    return visualizer ? `${lyrics}\n~${visualizer}` : lyrics;
+  }
+
+  private transitionAt(item: TranscriptItem | undefined, timeMs: number): TransitionFrame {
+    return transitionFrame(this.config, item, item && this.previousItems.get(item), timeMs);
+  }
+
+  private gapFrameAt(item: TranscriptItem | undefined, gap: LyricGap | undefined, timeMs: number): GapFrame | null {
+    if (item || !gap) return null;
+    // An intro card already shows the title, so the gap after it doesn't repeat it
+    const hasTitle = Boolean(this.songInfo?.title) && !this.config.introCard;
+    return gapFrame(this.config.gaps || {}, gap, timeMs, hasTitle);
+  }
+
+  /**
+   * Length of the intro card, which the lyrics and the audio are delayed by
+   */
+  private get introMs(): number {
+    return introDuration(this.config);
+  }
+
+  private get outroMs(): number {
+    return outroDuration(this.config);
+  }
+
   /**
    * Renders a frame with lyrics
    */
-  private renderFrame(textLines: string[]): Buffer {
-    // Clear canvas with black background
-    this.ctx.fillStyle = this.config.backgroundColor;
-    this.ctx.fillRect(0, 0, this.config.width, this.config.height);
+  private renderFrame(item: TranscriptItem | undefined, timeMs: number, gap?: LyricGap): Buffer {
+    this.paintFrame(item, timeMs, gap);
+    return this.canvas.toBuffer('image/png');
+  }
+
+  /**
+   * Draws the background, the visualizer and then the lyrics onto the
+   * full-size canvas, going through the small canvas in low-res mode
+   */
+  private paintFrame(item: TranscriptItem | undefined, timeMs: number, gap?: LyricGap): void {
+    const transition = this.transitionAt(item, timeMs);
+    const filler = this.gapFrameAt(item, gap, timeMs);
+    this.background.draw(this.output);
+    this.visualizer.draw(this.output, timeMs - this.introMs);
+    if (this.ctx !== this.output) {
+      this.ctx.clearRect(0, 0, this.config.width, this.config.height);
+    }
+    this.drawFrame(item, timeMs, transition);
+    if (filler) this.drawGap(filler);
+    if (transition.glitch) this.drawGlitch(transition.glitch.seed, transition.glitch.strength);
+    if (this.lowRes) {
+      // Snapping would turn partial opacity into all or nothing, so the fade is applied when compositing
+      this.output.globalAlpha = transition.alpha;
+      this.upscaleLowRes(this.lowRes);
+      this.output.globalAlpha = 1;
+    } else if (this.lyricLayer) {
+      this.output.drawImage(this.lyricLayer, 0, 0);
+    }
+  }
+
+  /**
+   * Tears the lyrics into horizontal slices shifted sideways, less as strength drops.
+   * Only ever runs on a lyrics-only canvas (the low-res canvas or the glitch layer).
+   */
+  private drawGlitch(seed: number, strength: number): void {
+    const random = seededRandom(seed);
+    const { width, height } = this.ctx.canvas;
+    const slices = 3 + Math.floor(random() * 4);
+    for (let i = 0; i < slices; i++) {
+      const sliceHeight = Math.max(1, Math.floor(random() * height * 0.08));
+      const y = Math.floor(random() * (height - sliceHeight));
+      const dx = Math.round((random() * 2 - 1) * width * 0.05 * strength);
+      // putImageData works in device pixels, so this is right on the low-res canvas too
+      this.ctx.putImageData(this.ctx.getImageData(0, y, width, sliceHeight), dx, y);
+    }
+  }
+
+  /**
+   * Draws a frame's lyrics over the background
+   */
+  private drawFrame(item: TranscriptItem | undefined, timeMs: number, transition: TransitionFrame): void {
+    const textLines = item ? item.text : [];
 
     if (!textLines || textLines.length === 0 || textLines.every(t => !t || t.trim() === '')) {
-      return this.canvas.toBuffer('image/png');
+      return;
     }
 
-    // Calculate layout for multiple languages
+    const sungCounts = this.sungWordCounts(item, timeMs);
+
+    // Each language gets a horizontal band centered on its slot:
+    // 1 language: center of screen; 2: 1/3 and 2/3; 3: 1/4, 2/4, 3/4
     const totalLanguages = textLines.length;
     const spacing = this.config.height / (totalLanguages + 1);
+    const margin = this.config.safeMargin ?? DEFAULT_SAFE_MARGIN;
+    const maxWidth = this.config.width * (1 - 2 * margin);
+    const bandHeight = Math.min(spacing, this.config.height * (1 - 2 * margin));
+
+    // In low-res mode the fade is applied when the layer is composited instead
+    const alpha = this.lowRes ? 1 : transition.alpha;
+    if (transition.previous) {
+      this.ctx.globalAlpha = alpha;
+      this.drawPreviousLine(transition.previous.item, transition.previous.progress, spacing, maxWidth);
+    }
+    this.ctx.globalAlpha = alpha;
     
     textLines.forEach((text, langIndex) => {
       if (!text || text.trim() === '') return;
 
-      // Split text into lines if too long
-      const maxCharsPerLine = Math.floor(this.config.width / (this.config.fontSize * 0.6));
-      const words = text.split(' ');
-      const lines: string[] = [];
-      let currentLine = '';
-
-      for (const word of words) {
-        const testLine = currentLine ? `${currentLine} ${word}` : word;
-        if (testLine.length <= maxCharsPerLine) {
-          currentLine = testLine;
-        } else {
-          if (currentLine) lines.push(currentLine);
-          currentLine = word;
-        }
-      }
-      if (currentLine) lines.push(currentLine);
+      // Karaoke highlighting works on the timed words, so lay those out instead of the plain text
+      const timedWords = sungCounts && item!.words![langIndex]?.length ? item!.words![langIndex] : null;
+      const words = timedWords ? timedWords.map(word => word.text) : text.split(/\s+/).filter(Boolean);
 
-      // Render up to 2 lines per language to save space
-      const maxDisplayLines = 2;
-      const displayLines = lines.slice(0, maxDisplayLines);
+      const style = this.styleFor(langIndex);
+      const { lines, fontSize } = this.layoutText(words, style, maxWidth, bandHeight);
 
-      const lineHeight = this.config.fontSize * 1.2;
-      const totalBlockHeight = displayLines.length * lineHeight;
-      
-      // Center this language block around its vertical center point
-      // If 1 lang: center of screen
-      // If 2 langs: 1/3 and 2/3 of screen
-      // If 3 langs: 1/4, 2/4, 3/4 of screen
-      const centerY = spacing * (langIndex + 1);
-      const startY = centerY - (totalBlockHeight / 2) + (lineHeight / 2);
-
-      displayLines.forEach((line, lineIndex) => {
+      const lineHeight = fontSize * 1.2;
+      const totalBlockHeight = lines.length * lineHeight;
+      const centerY = style.position !== undefined ? style.position * this.config.height : spacing * (langIndex + 1);
+      const startY = centerY - (totalBlockHeight / 2) + (lineHeight / 2) + transition.offsetY;
+
+      // Typewriter: lines are laid out in full so they don't reflow as characters appear
+      const totalChars = lines.reduce((sum, line) => sum + Array.from(line.text).length, 0);
+      let hiddenFrom = transition.reveal ? Math.round(transition.reveal[langIndex] * totalChars) : totalChars;
+
+      lines.forEach((line, lineIndex) => {
         const y = startY + lineIndex * lineHeight;
-        // Use slightly smaller font for secondary languages if desired, 
-        // but for now keeping same size or maybe slightly smaller for 2nd/3rd langs
-        const fontSize = langIndex === 0 ? this.config.fontSize : this.config.fontSize * 0.8;
-        this.renderPixelatedText(line, this.config.width / 2, y, fontSize);
+        const chars = Array.from(line.text);
+        const shown = chars.slice(0, Math.max(0, hiddenFrom)).join('');
+        hiddenFrom -= chars.length;
+
+        if (shown.length < line.text.length) {
+          // A partly typed line starts where the full line will, so it grows to the right
+          if (shown) {
+            const lineLeft = this.config.width / 2 - this.measureWidth(line.text, style, fontSize) / 2;
+            this.renderPixelatedText(shown, lineLeft, y, style, fontSize, style.color, 'left');
+          }
+          return;
+        }
+        this.renderPixelatedText(line.text, this.config.width / 2, y, style, fontSize);
+
+        // Paint the already-sung words of this line over the base text
+        if (timedWords && !transition.reveal) {
+          const sungTokens = line.tokens.filter(token => token.wordIndex < sungCounts![langIndex]);
+          if (sungTokens.length > 0) {
+            const lineLeft = this.config.width / 2 - this.measureWidth(line.text, style, fontSize) / 2;
+            this.renderPixelatedText(
+              lineText(sungTokens),
+              lineLeft,
+              y,
+              style,
+              fontSize,
+              this.config.highlightColor || DEFAULT_HIGHLIGHT_COLOR,
+              'left',
+              false
+            );
+          }
+        }
       });
     });
+    this.ctx.globalAlpha = 1;
+  }
 
-    return this.canvas.toBuffer('image/png');
+  /**
+   * Scroll transition: the previous cue's first language moves up from the
+   * first band toward the top margin, shrinking and fading as it goes
+   */
+  private drawPreviousLine(item: TranscriptItem, progress: number, firstBandY: number, maxWidth: number): void {
+    const langIndex = item.text.findIndex(text => text && text.trim() !== '');
+    if (langIndex < 0) return;
+
+    const style = this.styleFor(langIndex);
+    const scale = 1 - (1 - SCROLL_PREVIOUS_SCALE) * progress;
+    const shrunk = { ...style, fontSize: style.fontSize * scale, maxLines: 1 };
+    const words = item.text[langIndex].split(/\s+/).filter(Boolean);
+    const { lines, fontSize } = this.layoutText(words, shrunk, maxWidth, Infinity);
+
+    const margin = this.config.safeMargin ?? DEFAULT_SAFE_MARGIN;
+    const topY = this.config.height * margin + fontSize * 0.6;
+    const y = firstBandY + (topY - firstBandY) * progress;
+
+    const alpha = this.ctx.globalAlpha;
+    this.ctx.globalAlpha = alpha * (1 - (1 - SCROLL_PREVIOUS_ALPHA) * progress);
+    this.renderPixelatedText(lines[0].text, this.config.width / 2, y, shrunk, fontSize);
+    this.ctx.globalAlpha = alpha;
   }
 
   /**
-   * Generates video frames from transcript with live preview
+   * Fills a long gap between lyrics: the title card or instrumental label in
+   * the middle of the frame, and the countdown under it
    */
-  async generateFrames(
+  private drawGap(gap: GapFrame): void {
+    if (gap.card) {
+      this.drawCard(gap.card);
+      return;
+    }
+
+    const style = this.styleFor(0);
+    const { width, height } = this.config;
+    const margin = this.config.safeMargin ?? DEFAULT_SAFE_MARGIN;
+    const maxWidth = width * (1 - 2 * margin);
+    const smaller = { ...style, fontSize: style.fontSize * SECONDARY_LANGUAGE_SCALE, maxLines: 1 };
+    let bottom = height / 2;
+
+    if (gap.titleCard) {
+      bottom += this.drawTitle(height / 2, maxWidth);
+    } else if (gap.label) {
+      bottom += this.drawTextBlock(gap.label, smaller, height / 2, maxWidth, 'center') / 2;
+    }
+
+    if (gap.countdown) {
+      this.drawCountdown(gap.countdown, bottom + style.fontSize * 0.6, style);
+    }
+  }
+
+  /**
+   * Song title just above y and artist just below it; returns how far below y the artist reaches
+   */
+  private drawTitle(y: number, maxWidth: number): number {
+    if (!this.songInfo) return 0;
+    const style = this.styleFor(0);
+    const smaller = { ...style, fontSize: style.fontSize * SECONDARY_LANGUAGE_SCALE, maxLines: 1 };
+    this.drawTextBlock(this.songInfo.title, style, y, maxWidth, 'above');
+    return this.songInfo.artist ? this.drawTextBlock(this.songInfo.artist, smaller, y, maxWidth, 'below') : 0;
+  }
+
+  /**
+   * Intro or outro card: the title and artist with the card's extra lines under them,
+   * or just the lines, centered, when there is no title
+   */
+  private drawCard(kind: CardKind): void {
+    const card = (kind === 'intro' ? this.config.introCard : this.config.outroCard) || {};
+    const style = this.styleFor(0);
+    const { width, height } = this.config;
+    const margin = this.config.safeMargin ?? DEFAULT_SAFE_MARGIN;
+    const maxWidth = width * (1 - 2 * margin);
+    const credits = { ...style, fontSize: style.fontSize * CREDITS_SCALE, maxLines: 1 };
+    const lines = (card.lines || []).filter(line => line.trim() !== '');
+
+    let y: number;
+    if (this.songInfo?.title) {
+      y = height / 2 + this.drawTitle(height / 2, maxWidth) + style.fontSize * 0.6;
+    } else {
+      y = height / 2 - (lines.length * credits.fontSize * 1.2) / 2;
+    }
+    for (const line of lines) {
+      y += this.drawTextBlock(line, credits, y, maxWidth, 'below');
+    }
+  }
+
+  /**
+   * Draws wrapped, centered text whose block ends above, starts below or is
+   * centered on y; returns the block height
+   */
+  private drawTextBlock(text: string, style: TextStyle, y: number, maxWidth: number, placement: 'above' | 'below' | 'center'): number {
+    const words = text.split(/\s+/).filter(Boolean);
+    const { lines, fontSize } = this.layoutText(words, style, maxWidth, this.config.height / 3);
+    const lineHeight = fontSize * 1.2;
+    const blockHeight = lines.length * lineHeight;
+    const top = placement === 'above' ? y - blockHeight : placement === 'below' ? y : y - blockHeight / 2;
+
+    lines.forEach((line, index) => {
+      this.renderPixelatedText(line.text, this.config.width / 2, top + lineHeight * (index + 0.5), style, fontSize);
+    });
+    return blockHeight;
+  }
+
+  /**
+   * Dots go out one by one; the bar loses a block per step
+   */
+  private drawCountdown(countdown: NonNullable<GapFrame['countdown']>, y: number, style: TextStyle): void {
+    const { indicator, remaining, steps } = countdown;
+    const block = Math.max(8, Math.round(style.fontSize * COUNTDOWN_BLOCK_SCALE));
+    // Dots get a block of space between them; bar blocks only a thin seam
+    const pitch = indicator === 'bar' ? block + Math.max(2, Math.floor(block / 4)) : block * 2;
+    const left = Math.round(this.config.width / 2 - (pitch * (steps - 1) + block) / 2);
+    const top = Math.round(y - block / 2);
+
+    this.ctx.fillStyle = style.color;
+    for (let step = 0; step < remaining; step++) {
+      this.ctx.fillRect(left + step * pitch, top, block, block);
+    }
+  }
+
+  /**
+   * Wraps one language's words by measured width. With autoFit the font shrinks
+   * until the text fits its line limit and band; without it extra lines are cut.
+   */
+  private layoutText(
+    words: string[],
+    style: TextStyle,
+    maxWidth: number,
+    bandHeight: number
+  ): { lines: LayoutLine[]; fontSize: number } {
+    const tokens = tokenize(words);
+    const maxLines = style.maxLines;
+    const autoFit = this.config.autoFit ?? true;
+    const minFontSize = Math.max(1, Math.floor(style.fontSize * MIN_FIT_SCALE));
+
+    let fontSize = Math.floor(style.fontSize);
+    for (;;) {
+      const lines = wrapTokens(tokens, maxWidth, text => this.measureWidth(text, style, fontSize));
+      const fits = lines.length <= maxLines && lines.length * fontSize * 1.2 <= bandHeight;
+
+      if (fits) return { lines, fontSize };
+      if (!autoFit) return { lines: lines.slice(0, maxLines), fontSize };
+      // At the smallest size every line is kept: overflowing the line limit beats losing lyrics
+      if (fontSize <= minFontSize) return { lines, fontSize };
+
+      fontSize = Math.max(minFontSize, Math.floor(fontSize * 0.9));
+    }
+  }
+
+  /**
+   * Warns about characters that no registered font can draw, so tofu shows up
+   * in the log before the render rather than in the finished video
+   */
+  private reportMissingGlyphs(transcript: TranscriptItem[]): void {
+    for (const item of transcript) {
+      item.text.forEach((text, langIndex) => {
+        if (text) this.runsFor(text, this.styleFor(langIndex));
+      });
+    }
+    if (this.missingGlyphs.size > 0) {
+      console.warn(
+        `⚠️  No registered font can render: ${Array.from(this.missingGlyphs).join(' ')}. ` +
+          'Add a font that covers them to fonts/ and list it in fallbackFonts.'
+      );
+    }
+  }
+
+  /**
+   * Maps every frame number to the transcript item visible during it
+   */
+  private buildFrameMap(
     transcript: TranscriptItem[],
-    framesDir: string,
-    fps: number,
-    onFrameGenerated?: (frameNumber: number, totalFrames: number, framePath: string) => void
-  ): Promise<{ totalFrames: number; duration: number }> {
+    fps: number
+  ): { frameToItem: Map<number, TranscriptItem>; gaps: LyricGap[]; totalFrames: number; duration: number } {
     const frameDuration = 1000 / fps; // milliseconds per frame
+
+    // The global sync offset applies to every render mode, so it's folded in here,
+    // and so is the intro card the whole song is pushed back by
+    const introMs = this.introMs;
+    transcript = shiftItems(shiftItems(transcript, this.config.offsetMs || 0), introMs);
+
+    // Transitions that show the previous line need to know which cue that was
+    const ordered = [...transcript].sort((a, b) => a.offset - b.offset);
+    ordered.forEach((item, index) => {
+      if (index > 0) this.previousItems.set(item, ordered[index - 1]);
+    });
     
-    // Calculate total duration
+    // Calculate total duration; the outro card starts when both the lyrics and the song are over
     const lastItem = transcript[transcript.length - 1];
-    const totalDuration = lastItem.offset + lastItem.duration;
+    const lyricsEnd = lastItem ? lastItem.offset + lastItem.duration : introMs;
+    const outroStart = this.config.outroCard ? Math.max(lyricsEnd, introMs + (this.songInfo?.durationMs ?? 0)) : lyricsEnd;
+    const totalDuration = outroStart + this.outroMs;
     const totalFrames = Math.ceil(totalDuration / frameDuration);
 
     // Create a map of frame number to transcript item
@@ -160,14 +756,184 @@ export class VideoGenerator {
       }
     }
 
+    const gaps = this.config.gaps ? findGaps(transcript, this.config.gaps, introMs) : [];
+    if (this.config.introCard) gaps.unshift({ start: 0, end: introMs, intro: true, card: 'intro' });
+    if (this.config.outroCard) gaps.push({ start: outroStart, end: totalDuration, intro: false, card: 'outro' });
+
+    return { frameToItem, gaps, totalFrames, duration: totalDuration };
+  }
+
+  /**
+   * Loads the image, thumbnail or video the configured background needs; call before rendering
+   */
+  async prepareBackground(assets: BackgroundAssets): Promise<void> {
+    await this.background.prepare(assets);
+  }
+
+  /**
+   * Title, artist and song length for the title and credits cards; without a
+   * title the gap intro shows the instrumental label and the cards only their lines
+   */
+  setSongInfo(info: SongInfo | undefined): void {
+    this.songInfo = info;
+  }
+
+  /**
+   * Analyses the audio for the configured visualizer; call before rendering.
+   * Without a visualizer in the config this does nothing.
+   */
+  async prepareVisualizer(audioPath: string, signal?: AbortSignal): Promise<void> {
+    await this.visualizer.prepare(audioPath, signal);
+  }
+
+  /**
+   * Everything besides the frame key that decides how a frame looks: the
+   * config, the song info, the background file and the registered fonts
+   */
+  private renderFingerprint(): string {
+    const background = this.background.sourcePath;
+    return createHash('sha1')
+      .update(JSON.stringify({
+        config: { ...this.config, renderMode: undefined },
+        songInfo: this.songInfo ?? null,
+        background: background ? fileStamp(background) : null,
+        fonts: fontRegistry.list().map(font => `${font.family}:${font.weight}:${font.style}:${fileStamp(font.file)}`)
+      }))
+      .digest('hex');
+  }
+
+  /**
+   * Deletes the images in dir that were drawn with different render inputs,
+   * so a render only reuses frames or segments that would come out the same
+   */
+  private async clearStaleImages(dir: string, prefix: string): Promise<void> {
+    const fingerprintPath = join(dir, FINGERPRINT_FILE);
+    const fingerprint = this.renderFingerprint();
+    if (existsSync(fingerprintPath) && await readFile(fingerprintPath, 'utf-8') === fingerprint) return;
+
+    for (const file of await readdir(dir)) {
+      if (file.startsWith(prefix) && file.endsWith('.png')) {
+        await rm(join(dir, file), { force: true });
+      }
+    }
+    await writeFile(fingerprintPath, fingerprint);
+  }
+
+  /**
+   * Renders the single frame shown at timeMs as a PNG, e.g. to check sync before a full render
+   */
+  renderFrameAt(transcript: TranscriptItem[], timeMs: number): Buffer {
+    const fps = this.config.fps;
+    const frameNumber = Math.floor(timeMs / (1000 / fps));
+    const { frameToItem, gaps } = this.buildFrameMap(transcript, fps);
+    const frameTimeMs = frameNumber * (1000 / fps);
+    return this.renderFrame(frameToItem.get(frameNumber), frameTimeMs, gapAt(gaps, frameTimeMs));
+  }
+
+  /**
+   * Frame numbers (1-based, as in frameFileName) that look different after
+   * `before` is replaced by `after`, including frames only one of them has
+   */
+  changedFrames(before: TranscriptItem[], after: TranscriptItem[], fps: number): number[] {
+    const previous = this.buildFrameMap(before, fps);
+    const next = this.buildFrameMap(after, fps);
+    const frameCount = Math.max(previous.totalFrames, next.totalFrames);
+
+    const changed: number[] = [];
+    for (let frameNumber = 0; frameNumber < frameCount; frameNumber++) {
+      const timeMs = frameNumber * (1000 / fps);
+      const beforeKey = frameNumber < previous.totalFrames
+        ? this.frameKey(previous.frameToItem.get(frameNumber), timeMs, gapAt(previous.gaps, timeMs))
+        : null;
+      const afterKey = frameNumber < next.totalFrames
+        ? this.frameKey(next.frameToItem.get(frameNumber), timeMs, gapAt(next.gaps, timeMs))
+        : null;
+      if (beforeKey !== afterKey) {
+        changed.push(frameNumber + 1);
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Output options shared by every encoding path
+   */
+  private encoderOptions(fps: number): string[] {
+    // The audio starts after the intro card and is padded with silence under the outro
+    const audioFilters = [
+      ...(this.introMs > 0 ? [`adelay=${this.introMs}:all=1`] : []),
+      ...(this.config.outroCard ? ['apad'] : [])
+    ];
+    return [
+      ...(audioFilters.length > 0 ? [`-af ${audioFilters.join(',')}`] : []),
+      '-c:v libx264',
+      '-pix_fmt yuv420p',
+      '-c:a aac',
+      '-b:a 192k',
+      '-shortest',
+      `-r ${fps}`,
+      '-preset medium',
+      '-crf 23'
+    ];
+  }
+
+  /**
+   * Adds the looping background video, if there is one, and returns the output
+   * options. Lyric frames must be input 0 and the audio input 1; `lyricFilters`
+   * run on the frames before they are laid over the video.
+   */
+  private withBackgroundVideo(command: FfmpegCommand, fps: number, lyricFilters: string[]): string[] {
+    const videoPath = this.background.videoPath;
+    if (!videoPath) {
+      return [...(lyricFilters.length > 0 ? [`-vf ${lyricFilters.join(',')}`] : []), ...this.encoderOptions(fps)];
+    }
+
+    const { width, height } = this.config;
+    const dim = this.config.background?.dim ?? 0;
+    command.input(videoPath).inputOptions(['-stream_loop -1']);
+    command.complexFilter([
+      `[2:v]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},setsar=1,fps=${fps}` +
+        (dim > 0 ? `,colorlevels=romax=${1 - dim}:gomax=${1 - dim}:bomax=${1 - dim}` : '') +
+        '[bg]',
+      `[0:v]${[...lyricFilters, 'format=rgba'].join(',')}[lyrics]`,
+      // shortest: the background loops forever, so the lyrics decide the length
+      '[bg][lyrics]overlay=shortest=1:format=auto[video]'
+    ]);
+    return ['-map [video]', '-map 1:a', ...this.encoderOptions(fps)];
+  }
+
+  /**
+   * Kills an FFmpeg command when the signal aborts; returns a function that detaches the listener
+   */
+  private killOnAbort(command: FfmpegCommand, signal?: AbortSignal): () => void {
+    if (!signal) return () => {};
+    const kill = () => command.kill('SIGKILL');
+    signal.addEventListener('abort', kill, { once: true });
+    return () => signal.removeEventListener('abort', kill);
+  }
+
+  /**
+   * Generates video frames from transcript with live preview
+   */
+  async generateFrames(
+    transcript: TranscriptItem[],
+    framesDir: string,
+    fps: number,
+    onFrameGenerated?: (frameNumber: number, totalFrames: number, framePath: string) => void,
+    signal?: AbortSignal
+  ): Promise<{ totalFrames: number; duration: number }> {
+    this.reportMissingGlyphs(transcript);
+    await this.clearStaleImages(framesDir, 'frame_');
+    const { frameToItem, gaps, totalFrames, duration: totalDuration } = this.buildFrameMap(transcript, fps);
+
     // Generate frames sequentially with progress updates
     for (let frameNumber = 0; frameNumber < totalFrames; frameNumber++) {
+      signal?.throwIfAborted();
       const item = frameToItem.get(frameNumber);
-      const textLines = item ? item.text : [];
       
-      const framePath = join(framesDir, `frame_${String(frameNumber + 1).padStart(8, '0')}.png`);
+      const framePath = join(framesDir, frameFileName(frameNumber + 1));
       
-      // Resume capability: Check if frame already exists
+      // Resume capability: Check if frame already exists (frames drawn with other settings are gone)
       // We could also check file size to ensure it's not empty/corrupt
       if (existsSync(framePath)) {
         // Skip generation but still notify progress
@@ -177,7 +943,8 @@ export class VideoGenerator {
         continue;
       }
 
-      const frameBuffer = this.renderFrame(textLines);
+      const timeMs = frameNumber * (1000 / fps);
+      const frameBuffer = this.renderFrame(item, timeMs, gapAt(gaps, timeMs));
       
       await writeFile(framePath, frameBuffer);
       
@@ -190,6 +957,227 @@ export class VideoGenerator {
     return { totalFrames, duration: totalDuration };
   }
 
+  /**
+   * Rasterizes one image per distinct transcript state (including blank gaps)
+   * and writes an FFmpeg concat list holding each image's on-screen duration.
+   * Segment boundaries come from the same frame map as generateFrames, so the
+   * encoded video has identical timing.
+   */
+  async generateSegments(
+    transcript: TranscriptItem[],
+    segmentsDir: string,
+    fps: number,
+    onSegmentGenerated?: (segmentNumber: number, totalSegments: number, segmentPath: string) => void,
+    signal?: AbortSignal
+  ): Promise<{ listPath: string; totalSegments: number; totalFrames: number; duration: number }> {
+    this.reportMissingGlyphs(transcript);
+    await this.clearStaleImages(segmentsDir, 'segment_');
+    const { frameToItem, gaps, totalFrames, duration } = this.buildFrameMap(transcript, fps);
+
+    // Collapse runs of identical-looking frames into segments
+    const segments: {
+      key: string;
+      item: TranscriptItem | undefined;
+      gap: LyricGap | undefined;
+      timeMs: number;
+      startFrame: number;
+      endFrame: number;
+    }[] = [];
+    for (let frameNumber = 0; frameNumber < totalFrames; frameNumber++) {
+      const item = frameToItem.get(frameNumber);
+      const timeMs = frameNumber * (1000 / fps);
+      const gap = gapAt(gaps, timeMs);
+      const key = this.frameKey(item, timeMs, gap);
+      const current = segments[segments.length - 1];
+      if (current && current.key === key) {
+        current.endFrame = frameNumber + 1;
+      } else {
+        segments.push({ key, item, gap, timeMs, startFrame: frameNumber, endFrame: frameNumber + 1 });
+      }
+    }
+
+    // Frame boundaries rounded down to the microsecond, so a segment never
+    // starts after the frame it is meant to appear on
+    const frameTime = (frame: number) => Math.floor((frame / fps) * 1e6) / 1e6;
+
+    // Images are named after their frame key, so all blank gaps (and repeated
+    // lines such as a chorus) share one image and a re-render after a transcript
+    // edit only draws the states that are new; clearStaleImages has already
+    // dropped images drawn with other settings
+    const usedImages = new Set<string>();
+    const listLines = ['ffconcat version 1.0'];
+    let lastImage = '';
+
+    for (let i = 0; i < segments.length; i++) {
+      signal?.throwIfAborted();
+      const segment = segments[i];
+      const imageName = segmentFileName(segment.key);
+
+      if (!usedImages.has(imageName) && !existsSync(join(segmentsDir, imageName))) {
+        await writeFile(join(segmentsDir, imageName), this.renderFrame(segment.item, segment.timeMs, segment.gap));
+      }
+      usedImages.add(imageName);
+
+      const segmentDuration = frameTime(segment.endFrame) - frameTime(segment.startFrame);
+      listLines.push(`file '${imageName}'`, `duration ${segmentDuration.toFixed(6)}`);
+      lastImage = imageName;
+
+      if (onSegmentGenerated) {
+        onSegmentGenerated(i + 1, segments.length, join(segmentsDir, imageName));
+      }
+    }
+
+    // The concat demuxer ignores the duration of the final entry unless the file is repeated
+    if (lastImage) listLines.push(`file '${lastImage}'`);
+
+    const listPath = join(segmentsDir, 'segments.ffconcat');
+    await writeFile(listPath, listLines.join('\n') + '\n');
+
+    // Drop images of states the transcript no longer has
+    for (const file of await readdir(segmentsDir)) {
+      if (file.startsWith('segment_') && file.endsWith('.png') && !usedImages.has(file)) {
+        await rm(join(segmentsDir, file), { force: true });
+      }
+    }
+
+    return { listPath, totalSegments: segments.length, totalFrames, duration };
+  }
+
+  /**
+   * Encodes a concat list from generateSegments together with the audio
+   */
+  async createVideoFromSegments(
+    listPath: string,
+    audioPath: string,
+    outputPath: string,
+    fps: number,
+    totalFrames: number,
+    onProgress?: (percent: number) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    signal?.throwIfAborted();
+    return new Promise((resolve, reject) => {
+      const command = ffmpeg()
+        .input(listPath)
+        .inputFormat('concat')
+        .inputOptions(['-safe 0'])
+        .input(audioPath);
+      // Resample the variable-duration stills to a constant frame rate
+      command
+        .outputOptions(this.withBackgroundVideo(command, fps, [`fps=${fps}`]))
+        .output(outputPath)
+        .on('start', (commandLine) => {
+          console.log('FFmpeg command: ' + commandLine);
+        })
+        .on('progress', (progress) => {
+          if (progress.frames && totalFrames && onProgress) {
+            onProgress(Math.min(100, Math.round((progress.frames / totalFrames) * 100)));
+          }
+        })
+        .on('end', () => {
+          detach();
+          resolve(outputPath);
+        })
+        .on('error', (error) => {
+          detach();
+          reject(new Error(`FFmpeg error: ${error.message}`));
+        });
+
+      const detach = this.killOnAbort(command, signal);
+      command.run();
+    });
+  }
+
+  /**
+   * Renders the video in one pass by piping raw frames into FFmpeg,
+   * without writing a PNG per frame to disk
+   */
+  async renderVideo(
+    transcript: TranscriptItem[],
+    audioPath: string,
+    outputPath: string,
+    fps: number,
+    onFrameRendered?: (frameNumber: number, totalFrames: number) => void,
+    signal?: AbortSignal
+  ): Promise<{ totalFrames: number; duration: number }> {
+    signal?.throwIfAborted();
+    this.reportMissingGlyphs(transcript);
+    const { frameToItem, gaps, totalFrames, duration } = this.buildFrameMap(transcript, fps);
+    const frameStream = new PassThrough();
+
+    let ffmpegError: Error | null = null;
+    const encoding = new Promise<void>((resolve, reject) => {
+      const command = ffmpeg()
+        .input(frameStream)
+        .inputFormat('rawvideo')
+        .inputOptions([
+          // node-canvas raw buffers are native-endian ARGB32, i.e. BGRA bytes on x86/ARM
+          '-pix_fmt bgra',
+          `-video_size ${this.config.width}x${this.config.height}`,
+          `-framerate ${fps}`
+        ])
+        .input(audioPath);
+      // Raw canvas pixels have premultiplied alpha, which the overlay expects straight
+      command
+        .outputOptions(this.withBackgroundVideo(command, fps, this.background.videoPath ? ['unpremultiply=inplace=1'] : []))
+        .output(outputPath)
+        .on('start', (commandLine) => {
+          console.log('FFmpeg command: ' + commandLine);
+        })
+        .on('end', () => {
+          detach();
+          resolve();
+        })
+        .on('error', (error) => {
+          detach();
+          ffmpegError = new Error(`FFmpeg error: ${error.message}`);
+          frameStream.destroy();
+          reject(ffmpegError);
+        });
+
+      const detach = this.killOnAbort(command, signal);
+      command.run();
+    });
+    // Surface the FFmpeg error from the await below rather than as an unhandled rejection
+    encoding.catch(() => {});
+
+    let lastKey: string | null = null;
+    let lastBuffer: Buffer | null = null;
+
+    for (let frameNumber = 0; frameNumber < totalFrames; frameNumber++) {
+      if (ffmpegError) break;
+      signal?.throwIfAborted();
+
+      const item = frameToItem.get(frameNumber);
+      const timeMs = frameNumber * (1000 / fps);
+      const gap = gapAt(gaps, timeMs);
+      const key = this.frameKey(item, timeMs, gap);
+
+      // Consecutive frames showing the same lyric state are identical, so reuse the buffer
+      if (!lastBuffer || key !== lastKey) {
+        this.paintFrame(item, timeMs, gap);
+        lastBuffer = this.canvas.toBuffer('raw');
+        lastKey = key;
+      }
+
+      if (!frameStream.write(lastBuffer)) {
+        await new Promise<void>(resolve => {
+          frameStream.once('drain', resolve);
+          frameStream.once('close', resolve);
+        });
+      }
+
+      if (onFrameRendered) {
+        onFrameRendered(frameNumber + 1, totalFrames);
+      }
+    }
+
+    frameStream.end();
+    await encoding;
+
+    return { totalFrames, duration };
+  }
+
   /**
    * Combines frames and audio into final video
    */
@@ -198,46 +1186,55 @@ export class VideoGenerator {
     audioPath: string,
     outputPath: string,
     fps: number,
-    totalFrames: number
+    totalFrames: number,
+    onProgress?: (percent: number) => void,
+    signal?: AbortSignal
   ): Promise<string> {
+    signal?.throwIfAborted();
     return new Promise((resolve, reject) => {
       const framePattern = join(framesDir, 'frame_%08d.png');
       
-      ffmpeg()
+      const command = ffmpeg()
         .input(framePattern)
         .inputOptions([
           `-framerate ${fps}`,
           `-start_number 1`,
           '-pattern_type sequence'
         ])
-        .input(audioPath)
-        .outputOptions([
-          '-c:v libx264',
-          '-pix_fmt yuv420p',
-          '-c:a aac',
-          '-b:a 192k',
-          '-shortest',
-          `-r ${fps}`,
-          '-preset medium',
-          '-crf 23'
-        ])
+        .input(audioPath);
+      command
+        .outputOptions(this.withBackgroundVideo(command, fps, []))
         .output(outputPath)
         .on('start', (commandLine) => {
           console.log('FFmpeg command: ' + commandLine);
         })
         .on('progress', (progress) => {
-          if (progress.percent) {
-            process.stdout.write(`\r⏳ Progress: ${Math.round(progress.percent)}%`);
+          // FFmpeg can't know the frame count of an image sequence up front,
+          // so derive the percentage from the frames it has encoded so far
+          const percent = progress.frames && totalFrames
+            ? (progress.frames / totalFrames) * 100
+            : progress.percent;
+          if (percent) {
+            const clamped = Math.min(100, Math.round(percent));
+            if (onProgress) {
+              onProgress(clamped);
+            } else {
+              process.stdout.write(`\r⏳ Progress: ${clamped}%`);
+            }
           }
         })
         .on('end', () => {
+          detach();
           console.log('\n');
           resolve(outputPath);
         })
         .on('error', (error) => {
+          detach();
           reject(new Error(`FFmpeg error: ${error.message}`));
-        })
-        .run();
+        });
+
+      const detach = this.killOnAbort(command, signal);
+      command.run();
     });
   }
 }
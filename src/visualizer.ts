@@ -0,0 +1,122 @@
+import { CanvasRenderingContext2D } from 'canvas';
+import { VideoConfig, VisualizerConfig } from './types.js';
+import { AudioAnalyzer } from './audio-analysis.js';
+
+const DEFAULT_HEIGHT = 0.25;
+const DEFAULT_BARS = 32;
+const DEFAULT_BLOCK_SIZE = 16;
+const DEFAULT_OPACITY = 0.5;
+const DEFAULT_SAFE_MARGIN = 0.05;
+
+/**
+ * Spectrum bars or a waveform drawn as stacks of square blocks under the lyrics.
+ * Levels are computed for the whole song up front and rounded to whole blocks,
+ * so frames where no bar moves still look identical and can be reused.
+ */
+export class VisualizerLayer {
+  private config: VideoConfig;
+  private frames: Uint8Array[] = []; // lit blocks per column, per frame
+
+  constructor(config: VideoConfig) {
+    this.config = config;
+  }
+
+  private get settings(): VisualizerConfig | undefined {
+    return this.config.visualizer;
+  }
+
+  // Waveforms and centered spectrums grow both ways from the middle line
+  private get mirrored(): boolean {
+    return this.settings?.style === 'waveform' || this.settings?.position === 'center';
+  }
+
+  private get area(): { top: number; height: number } {
+    const { height } = this.config;
+    const margin = this.config.safeMargin ?? DEFAULT_SAFE_MARGIN;
+    const areaHeight = height * (this.settings?.height ?? DEFAULT_HEIGHT);
+    switch (this.settings?.position) {
+      case 'top':
+        return { top: height * margin, height: areaHeight };
+      case 'center':
+        return { top: (height - areaHeight) / 2, height: areaHeight };
+      default:
+        return { top: height * (1 - margin) - areaHeight, height: areaHeight };
+    }
+  }
+
+  /**
+   * Blocks a column can light, on one side of the middle line when mirrored
+   */
+  private get rows(): number {
+    const rows = Math.floor(this.area.height / (this.settings?.blockSize || DEFAULT_BLOCK_SIZE));
+    return Math.max(1, this.mirrored ? Math.floor(rows / 2) : rows);
+  }
+
+  /**
+   * Analyses the audio; without a visualizer in the config this does nothing
+   */
+  async prepare(audioPath: string, signal?: AbortSignal): Promise<void> {
+    const settings = this.settings;
+    this.frames = [];
+    if (!settings) return;
+
+    console.log(`🔊 Analysing audio for the ${settings.style} visualizer...`);
+    const levels = await new AudioAnalyzer().analyze(
+      audioPath,
+      { fps: this.config.fps, columns: settings.bars || DEFAULT_BARS, style: settings.style },
+      signal
+    );
+    const rows = this.rows;
+    this.frames = levels.map(frame => Uint8Array.from(frame, level => Math.round(level * rows)));
+  }
+
+  private levelsAt(timeMs: number): Uint8Array | undefined {
+    // Negative times are the intro card, before the audio starts
+    if (timeMs < 0) return undefined;
+    return this.frames[Math.round((timeMs * this.config.fps) / 1000)];
+  }
+
+  /**
+   * Part of the frame key: the lit blocks at this time, or '' without a visualizer
+   */
+  key(timeMs: number): string {
+    const levels = this.levelsAt(timeMs);
+    return levels ? levels.join(',') : '';
+  }
+
+  draw(ctx: CanvasRenderingContext2D, timeMs: number): void {
+    const levels = this.levelsAt(timeMs);
+    if (!levels) return;
+
+    const { width } = this.config;
+    const margin = this.config.safeMargin ?? DEFAULT_SAFE_MARGIN;
+    const blockSize = this.settings?.blockSize || DEFAULT_BLOCK_SIZE;
+    const gap = Math.max(1, Math.floor(blockSize / 8));
+    const left = width * margin;
+    const columnWidth = (width * (1 - 2 * margin)) / levels.length;
+    const { top, height } = this.area;
+    const middle = Math.round(top + height / 2);
+    const bottom = Math.round(top + height);
+
+    ctx.globalAlpha = this.settings?.opacity ?? DEFAULT_OPACITY;
+    ctx.fillStyle = this.settings?.color || this.config.textColor;
+
+    levels.forEach((lit, column) => {
+      const x = Math.round(left + column * columnWidth);
+      const blockWidth = Math.max(1, Math.round(columnWidth) - gap);
+      for (let row = 0; row < lit; row++) {
+        const offset = row * blockSize;
+        if (this.mirrored) {
+          ctx.fillRect(x, middle - offset - blockSize + gap, blockWidth, blockSize - gap);
+          ctx.fillRect(x, middle + offset, blockWidth, blockSize - gap);
+        } else if (this.settings?.position === 'top') {
+          ctx.fillRect(x, Math.round(top) + offset, blockWidth, blockSize - gap);
+        } else {
+          ctx.fillRect(x, bottom - offset - blockSize + gap, blockWidth, blockSize - gap);
+        }
+      }
+    });
+
+    ctx.globalAlpha = 1;
+  }
+}
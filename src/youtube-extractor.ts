@@ -4,12 +4,27 @@ import { mkdir, readFile, readdir, unlink } from 'fs/promises';
 import { join } from 'path';
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import { TranscriptItem } from './types.js';
+import { MergePolicy, SubtitleLanguage, Transcript, TranscriptItem, VideoChapter, VideoMetadata } from './types.js';
+import { VttParser } from './transcript-parsers.js';
+import { collapseRollingCaptions } from './caption-normalizer.js';
+import { shiftItems } from './transcript-timing.js';
+import { mergeTracks } from './transcript-merge.js';
 
 const execPromise = promisify(exec);
 
+export interface DownloadOptions {
+  signal?: AbortSignal; // kills the yt-dlp process when aborted
+}
+
+export interface TranscriptDownloadOptions extends DownloadOptions {
+  autoLanguages?: string[]; // codes that only exist as auto-generated captions
+  languageOffsets?: Record<string, number>; // ms to shift each language before merging
+  mergePolicy?: MergePolicy; // defaults to 'base'
+}
+
 export class YouTubeExtractor {
   private ytDlpPath: string;
+  private vttParser = new VttParser();
 
   constructor() {
     this.ytDlpPath = 'yt-dlp'; // Assumes yt-dlp is in PATH
@@ -50,7 +65,7 @@ export class YouTubeExtractor {
   /**
    * Gets available subtitle languages for a video (both manual and auto-generated)
    */
-  async getAvailableLanguages(videoUrl: string): Promise<{ code: string; name: string; isAuto: boolean }[]> {
+  async getAvailableLanguages(videoUrl: string): Promise<SubtitleLanguage[]> {
     console.log('📝 Fetching available subtitles...');
     const normalizedUrl = this.normalizeUrl(videoUrl);
     
@@ -62,7 +77,7 @@ export class YouTubeExtractor {
         { maxBuffer: 10 * 1024 * 1024 } // 10MB buffer
       );
       
-      const languages: { code: string; name: string; isAuto: boolean }[] = [];
+      const languages: SubtitleLanguage[] = [];
       const seenCodes = new Set<string>(); // Avoid duplicates
       const lines = stdout.split('\n');
       
@@ -113,7 +128,13 @@ export class YouTubeExtractor {
   /**
    * Downloads transcript for selected languages
    */
-  async downloadTranscript(videoUrl: string, selectedLanguages: string[]): Promise<TranscriptItem[]> {
+  async downloadTranscript(
+    videoUrl: string,
+    selectedLanguages: string[],
+    options: TranscriptDownloadOptions = {}
+  ): Promise<Transcript> {
+    const { signal } = options;
+    const autoLanguages = options.autoLanguages || [];
     console.log(`📝 Downloading transcript for languages: ${selectedLanguages.join(', ')}...`);
     const normalizedUrl = this.normalizeUrl(videoUrl);
     
@@ -124,8 +145,9 @@ export class YouTubeExtractor {
 
     const transcripts: { lang: string; items: TranscriptItem[] }[] = [];
 
-    // Download each selected language (manual subtitles only)
+    // Download each selected language (manual subtitles, else auto-generated captions)
     for (const lang of selectedLanguages) {
+      signal?.throwIfAborted();
       try {
         const outputPath = join(tempDir, `sub_${lang}`);
         // Clean up previous files
@@ -133,13 +155,21 @@ export class YouTubeExtractor {
           await unlink(`${outputPath}.vtt`);
         }
 
-        // Try manual subtitles first, then auto-generated if not available
-        try {
-          await execPromise(`${this.ytDlpPath} --write-sub --sub-lang ${lang} --skip-download --no-playlist --output "${outputPath}" "${normalizedUrl}"`);
-        } catch (error) {
-          // If manual subtitle fails, try auto-generated captions
-          console.log(`  Trying auto-generated captions for ${lang}...`);
-          await execPromise(`${this.ytDlpPath} --write-auto-sub --sub-lang ${lang} --skip-download --no-playlist --output "${outputPath}" "${normalizedUrl}"`);
+        // Languages known to be auto-generated go straight to --write-auto-sub;
+        // otherwise try manual subtitles first, then auto-generated if not available
+        let isAuto = autoLanguages.includes(lang);
+        if (isAuto) {
+          await execPromise(`${this.ytDlpPath} --write-auto-sub --sub-lang ${lang} --skip-download --no-playlist --output "${outputPath}" "${normalizedUrl}"`, { signal });
+        } else {
+          try {
+            await execPromise(`${this.ytDlpPath} --write-sub --sub-lang ${lang} --skip-download --no-playlist --output "${outputPath}" "${normalizedUrl}"`, { signal });
+          } catch (error) {
+            signal?.throwIfAborted();
+            // If manual subtitle fails, try auto-generated captions
+            console.log(`  Trying auto-generated captions for ${lang}...`);
+            await execPromise(`${this.ytDlpPath} --write-auto-sub --sub-lang ${lang} --skip-download --no-playlist --output "${outputPath}" "${normalizedUrl}"`, { signal });
+            isAuto = true;
+          }
         }
         
         // yt-dlp might append language code to filename
@@ -148,111 +178,48 @@ export class YouTubeExtractor {
         
         if (vttFile) {
           const vttContent = await readFile(join(tempDir, vttFile), 'utf-8');
-          const items = this.parseVTT(vttContent);
+          let items = this.vttParser.parse(vttContent);
+
+          // Auto captions roll: each cue repeats the previous line, so collapse them into clean lines
+          if (isAuto) {
+            const normalized = collapseRollingCaptions(items);
+            items = normalized.items;
+            console.log(`  - Merged ${normalized.mergedCount} rolling caption cues for ${lang}`);
+          }
+
+          // Shift first so the track lines up with the others before mergeTracks matches cues by overlap
+          const languageOffset = options.languageOffsets?.[lang] || 0;
+          if (languageOffset) {
+            items = shiftItems(items, languageOffset);
+            console.log(`  - Shifted ${lang} by ${languageOffset}ms`);
+          }
+
           transcripts.push({ lang, items });
           console.log(`  - Fetched ${lang}: ${items.length} lines`);
         } else {
           console.warn(`  ⚠️ Failed to fetch ${lang} (file not found)`);
         }
       } catch (error) {
+        // A cancelled run must stop, not carry on with the next language
+        signal?.throwIfAborted();
         console.warn(`  ⚠️ Failed to fetch ${lang}`, error);
       }
     }
 
     if (transcripts.length === 0) {
-      console.warn('⚠️ No manual subtitles found for this video.');
-      console.warn('💡 This video does not have manually uploaded captions/subtitles.');
-      console.warn('💡 Only videos with manual subtitles (not auto-generated) are supported.');
-      return [];
+      console.warn('⚠️ No subtitles found for this video in the selected languages.');
+      console.warn('💡 Neither uploaded subtitles nor auto-generated captions could be downloaded.');
+      console.warn('💡 Pick other languages, or upload a lyric file instead.');
+      return { languages: [], items: [] };
     }
 
-    // Merge transcripts
-    // Use the first language as the base for timing
-    const baseTranscript = transcripts[0];
-    const mergedItems: TranscriptItem[] = baseTranscript.items.map(item => ({
-      text: [item.text[0]], // Initialize with base language text
-      offset: item.offset,
-      duration: item.duration
-    }));
+    const mergedItems = mergeTracks(transcripts, options.mergePolicy);
 
-    // Add other languages
-    for (let i = 1; i < transcripts.length; i++) {
-      const currentLang = transcripts[i];
-      
-      // For each item in base transcript, find matching item in current lang
-      for (let j = 0; j < mergedItems.length; j++) {
-        const baseItem = mergedItems[j];
-        const baseMid = baseItem.offset + (baseItem.duration / 2);
-        
-        // Find item that overlaps with the midpoint of base item
-        const match = currentLang.items.find(item => 
-          baseMid >= item.offset && baseMid <= (item.offset + item.duration)
-        );
-        
-        if (match && match.text && match.text.length > 0) {
-          mergedItems[j].text.push(match.text[0]);
-        } else {
-          mergedItems[j].text.push(''); // Empty string if no match
-        }
-      }
-    }
-
-    return mergedItems;
-  }
-
-  private parseVTT(vttContent: string): TranscriptItem[] {
-    const items: TranscriptItem[] = [];
-    const lines = vttContent.split('\n');
-    
-    const timeRegex = /(\d{2}):(\d{2}):(\d{2})\.(\d{3}) --> (\d{2}):(\d{2}):(\d{2})\.(\d{3})/;
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      
-      const timeMatch = line.match(timeRegex);
-      if (timeMatch) {
-        // Parse start time
-        const startH = parseInt(timeMatch[1]);
-        const startM = parseInt(timeMatch[2]);
-        const startS = parseInt(timeMatch[3]);
-        const startMs = parseInt(timeMatch[4]);
-        
-        const currentStart = (startH * 3600 + startM * 60 + startS) * 1000 + startMs;
-        
-        // Parse end time
-        const endH = parseInt(timeMatch[5]);
-        const endM = parseInt(timeMatch[6]);
-        const endS = parseInt(timeMatch[7]);
-        const endMs = parseInt(timeMatch[8]);
-        
-        const currentEnd = (endH * 3600 + endM * 60 + endS) * 1000 + endMs;
-        
-        // Next line(s) are text until empty line
-        let textLines: string[] = [];
-        let j = i + 1;
-        while (j < lines.length && lines[j].trim() !== '') {
-          // Remove VTT tags like <c.colorCCCCCC>...</c> or <b>...</b>
-          const cleanLine = lines[j].replace(/<[^>]*>/g, '').trim();
-          if (cleanLine) textLines.push(cleanLine);
-          j++;
-        }
-        
-        if (textLines.length > 0) {
-          items.push({
-            text: [textLines.join(' ')], // Store as single string in array initially
-            offset: currentStart,
-            duration: currentEnd - currentStart
-          });
-        }
-        
-        i = j;
-      }
-    }
-    
-    return items;
+    // Languages that failed to download are left out, so report the ones that made it
+    return { languages: transcripts.map(t => t.lang), items: mergedItems };
   }
 
-  async downloadAudio(videoUrl: string, outputPath: string): Promise<string> {
+  async downloadAudio(videoUrl: string, outputPath: string, options: DownloadOptions = {}): Promise<string> {
     console.log('🎤 Downloading audio...');
     const normalizedUrl = this.normalizeUrl(videoUrl);
     
@@ -269,40 +236,102 @@ export class YouTubeExtractor {
       // Download audio in webm format without conversion (no ffmpeg needed)
       // Use --no-playlist to avoid downloading entire playlists
       await execPromise(
-        `${this.ytDlpPath} -f bestaudio --no-playlist --output "${webmPath}" "${normalizedUrl}"`
+        `${this.ytDlpPath} -f bestaudio --no-playlist --output "${webmPath}" "${normalizedUrl}"`,
+        { signal: options.signal }
       );
       console.log('✅ Audio downloaded');
       return webmPath;
     } catch (error) {
-      console.error('❌ Failed to download audio:', error);
+      if (!options.signal?.aborted) {
+        console.error('❌ Failed to download audio:', error);
+      }
       throw error;
     }
   }
 
-  // Legacy method for backward compatibility
-  async getTranscript(videoUrl: string): Promise<TranscriptItem[]> {
-    const available = await this.getAvailableLanguages(videoUrl);
+  /**
+   * Downloads the video thumbnail as thumbnail.jpg in outputDir; yt-dlp needs FFmpeg to convert it
+   */
+  async downloadThumbnail(videoUrl: string, outputDir: string, options: DownloadOptions = {}): Promise<string> {
+    const normalizedUrl = this.normalizeUrl(videoUrl);
+    const thumbnailPath = join(outputDir, 'thumbnail.jpg');
+
+    if (existsSync(thumbnailPath)) {
+      return thumbnailPath;
+    }
+
+    console.log('🖼️  Downloading thumbnail...');
+    await execPromise(
+      `${this.ytDlpPath} --write-thumbnail --convert-thumbnails jpg --skip-download --no-playlist --output "${join(outputDir, 'thumbnail')}.%(ext)s" "${normalizedUrl}"`,
+      { signal: options.signal }
+    );
+    if (!existsSync(thumbnailPath)) {
+      throw new Error('yt-dlp did not write a thumbnail');
+    }
+    console.log('✅ Thumbnail downloaded');
+    return thumbnailPath;
+  }
+
+  /**
+   * Reads the video's metadata with `yt-dlp --dump-json`
+   */
+  async getMetadata(videoUrl: string, options: DownloadOptions = {}): Promise<VideoMetadata> {
+    const normalizedUrl = this.normalizeUrl(videoUrl);
+    const { stdout } = await execPromise(
+      `${this.ytDlpPath} --dump-json --skip-download --no-playlist "${normalizedUrl}"`,
+      { maxBuffer: 50 * 1024 * 1024, signal: options.signal } // the format list alone can be several MB
+    );
+    const info = JSON.parse(stdout);
+    const chapters: VideoChapter[] | undefined = Array.isArray(info.chapters)
+      ? info.chapters.map((chapter: { title?: string; start_time: number; end_time: number }) => ({
+          title: chapter.title || '',
+          startMs: Math.round(chapter.start_time * 1000),
+          endMs: Math.round(chapter.end_time * 1000)
+        }))
+      : undefined;
+
+    return {
+      title: info.title,
+      track: info.track || undefined,
+      artist: info.artist || info.creator || undefined,
+      uploader: info.uploader || info.channel || undefined,
+      durationMs: typeof info.duration === 'number' ? Math.round(info.duration * 1000) : undefined,
+      thumbnail: info.thumbnail || undefined,
+      chapters: chapters && chapters.length > 0 ? chapters : undefined
+    };
+  }
+
+  /**
+   * Picks up to `max` languages, preferring the channel's usual lyric languages
+   */
+  selectPreferredLanguages(available: SubtitleLanguage[], max: number = 3): string[] {
     const preferred = ['mn', 'en', 'ja', 'ko', 'ru'];
     const selected: string[] = [];
     
-    // Select up to 3 languages
     for (const pref of preferred) {
-      if (selected.length >= 3) break;
+      if (selected.length >= max) break;
       const match = available.find(l => l.code.startsWith(pref));
       if (match && !selected.includes(match.code)) {
         selected.push(match.code);
       }
     }
     
-    if (selected.length < 3) {
+    if (selected.length < max) {
       for (const lang of available) {
-        if (selected.length >= 3) break;
+        if (selected.length >= max) break;
         if (!selected.includes(lang.code)) {
           selected.push(lang.code);
         }
       }
     }
     
-    return this.downloadTranscript(videoUrl, selected);
+    return selected;
+  }
+
+  // Legacy method for backward compatibility
+  async getTranscript(videoUrl: string): Promise<TranscriptItem[]> {
+    const available = await this.getAvailableLanguages(videoUrl);
+    const selected = this.selectPreferredLanguages(available);
+    return (await this.downloadTranscript(videoUrl, selected)).items;
   }
 }
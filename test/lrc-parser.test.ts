@@ -0,0 +1,15 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LrcParser } from '../src/transcript-parsers.js';
+
+test('lines sharing a timestamp become one cue lasting until the next timestamp', () => {
+  const items = new LrcParser().parse('[00:01.00]Hello world\n[00:01.00]你好世界\n[00:03.00]Next');
+  assert.deepEqual(items[0], { text: ['Hello world 你好世界'], offset: 1000, duration: 2000 });
+  assert.equal(items.length, 2);
+  assert.ok(items.every(item => item.duration > 0));
+});
+
+test('untimed words merged after timed ones never go back in time', () => {
+  const [item] = new LrcParser().parse('[00:03.00]<00:03.00>Next <00:03.50>line\n[00:03.00]下一行\n[00:05.00]');
+  assert.deepEqual(item.words![0].map(word => word.offset), [3000, 3500, 3500]);
+});
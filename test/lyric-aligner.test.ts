@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LyricAligner } from '../src/lyric-aligner.js';
+
+const SAMPLE_RATE = 16000;
+
+/**
+ * 16 kHz mono audio that is silent except for a tone between fromMs and toMs
+ */
+function toneBetween(fromMs: number, toMs: number, totalMs: number): Int16Array {
+  const samples = new Int16Array((totalMs * SAMPLE_RATE) / 1000);
+  for (let i = (fromMs * SAMPLE_RATE) / 1000; i < (toMs * SAMPLE_RATE) / 1000; i++) {
+    samples[i] = Math.round(Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE) * 20000);
+  }
+  return samples;
+}
+
+test('a cue snapped to before the offset still lasts at least minCueMs', () => {
+  const aligner = new LyricAligner({ offsetMs: 400 });
+  const item = { text: ['early'], offset: 0, duration: 100 };
+  const { items, adjustments } = aligner.alignSamples([item], toneBetween(100, 400, 2000));
+  assert.equal(adjustments.length, 1);
+  assert.equal(items[0].offset, 0);
+  assert.ok(items[0].duration >= 300, `duration ${items[0].duration}`);
+});
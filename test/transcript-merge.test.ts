@@ -0,0 +1,104 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { VttParser } from '../src/transcript-parsers.js';
+import { LanguageTrack, mergeTracks } from '../src/transcript-merge.js';
+import { MergePolicy, TranscriptItem } from '../src/types.js';
+
+function track(lang: string, fixture: string): LanguageTrack {
+  const content = readFileSync(join(import.meta.dirname, 'fixtures', fixture), 'utf-8');
+  return { lang, items: new VttParser().parse(content) };
+}
+
+/**
+ * How many merged items show the cue text in the given language
+ */
+function occurrences(items: TranscriptItem[], langIndex: number, text: string): number {
+  return items.filter(item => item.text[langIndex].split(' ').includes(text)).length;
+}
+
+/**
+ * Total time the cue text is on screen in the given language
+ */
+function shownFor(items: TranscriptItem[], langIndex: number, text: string): number {
+  return items
+    .filter(item => item.text[langIndex].split(' ').includes(text))
+    .reduce((sum, item) => sum + item.duration, 0);
+}
+
+const base = track('en', 'base.vtt');
+const secondary = track('es', 'secondary.vtt');
+const empty = track('en', 'empty.vtt');
+const POLICIES: MergePolicy[] = ['base', 'independent'];
+
+test('base: keeps the base timing', () => {
+  const merged = mergeTracks([base, secondary], 'base');
+  assert.deepEqual(
+    merged.map(item => [item.text[0], item.offset, item.duration]),
+    base.items.map(item => [item.text[0], item.offset, item.duration])
+  );
+});
+
+test('base: a secondary cue between two base cues joins exactly one of them', () => {
+  const merged = mergeTracks([base, secondary], 'base');
+  assert.equal(occurrences(merged, 1, 'entre'), 1);
+});
+
+test('base: a secondary cue spanning several base cues joins the one it overlaps most', () => {
+  const merged = mergeTracks([base, secondary], 'base');
+  assert.equal(occurrences(merged, 1, 'largo'), 1);
+  assert.equal(merged.find(item => item.text[1].includes('largo'))!.text[0], 'three');
+});
+
+test('independent: a secondary cue between two base cues is shown for its own time', () => {
+  const merged = mergeTracks([base, secondary], 'independent');
+  assert.equal(occurrences(merged, 1, 'entre'), 1);
+  assert.equal(shownFor(merged, 1, 'entre'), 1000);
+  assert.equal(merged.find(item => item.text[1] === 'entre')!.text[0], '');
+});
+
+test('independent: a secondary cue spanning several base cues stays up across them', () => {
+  const merged = mergeTracks([base, secondary], 'independent');
+  assert.equal(shownFor(merged, 1, 'largo'), 6000);
+  assert.deepEqual(
+    merged.filter(item => item.text[1] === 'largo').map(item => item.text[0]),
+    ['two', 'three']
+  );
+});
+
+test('independent: every base cue is shown for exactly its own time', () => {
+  const merged = mergeTracks([base, secondary], 'independent');
+  for (const item of base.items) {
+    assert.equal(shownFor(merged, 0, item.text[0]), item.duration, item.text[0]);
+  }
+});
+
+for (const policy of POLICIES) {
+  test(`${policy}: every secondary cue appears, none twice`, () => {
+    const merged = mergeTracks([base, secondary], policy);
+    for (const item of secondary.items) {
+      const count = occurrences(merged, 1, item.text[0]);
+      if (policy === 'base') {
+        assert.equal(count, 1, item.text[0]);
+        continue;
+      }
+      // Split across base cues, the pieces follow each other without overlapping
+      assert.ok(count >= 1, item.text[0]);
+      const pieces = merged
+        .filter(piece => piece.text[1].split(' ').includes(item.text[0]))
+        .sort((a, b) => a.offset - b.offset);
+      for (let i = 1; i < pieces.length; i++) {
+        assert.equal(pieces[i].offset, pieces[i - 1].offset + pieces[i - 1].duration, item.text[0]);
+      }
+    }
+  });
+
+  test(`${policy}: an empty base track keeps every secondary cue`, () => {
+    const merged = mergeTracks([empty, secondary], policy);
+    for (const item of secondary.items) {
+      assert.equal(shownFor(merged, 1, item.text[0]), item.duration, item.text[0]);
+    }
+    assert.ok(merged.every(item => item.text[0] === ''));
+  });
+}